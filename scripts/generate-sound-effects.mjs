@@ -0,0 +1,185 @@
+// Generates the placeholder sound effect samples in public/sounds/ that
+// src/sounds/manifest.json points at. They are synthesized from scratch (no
+// recordings), and the noise is seeded, so every run writes the same files:
+//
+//   npm run sound-effects
+//
+// To use real recordings instead, drop them in with the same file names and
+// stop running this script.
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const SAMPLE_RATE = 16000;
+const PEAK = 0.89;
+const OUT_DIR = join(process.cwd(), 'public', 'sounds');
+
+// mulberry32: small, seeded and good enough for noise.
+let seed = 7;
+function random() {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+const uniform = (min, max) => min + (max - min) * random();
+
+// 16-bit mono PCM in a WAV container, normalized to PEAK.
+function wav(samples) {
+    const peak = samples.reduce((max, v) => Math.max(max, Math.abs(v)), 1e-9);
+    const pcm = Buffer.alloc(samples.length * 2);
+    samples.forEach((v, i) => pcm.writeInt16LE(Math.round(Math.max(-1, Math.min(1, v * PEAK / peak)) * 32767), i * 2));
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);
+    header.writeUInt16LE(1, 22);
+    header.writeUInt32LE(SAMPLE_RATE, 24);
+    header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+    header.writeUInt16LE(2, 32);
+    header.writeUInt16LE(16, 34);
+    header.write('data', 36);
+    header.writeUInt32LE(pcm.length, 40);
+    return Buffer.concat([header, pcm]);
+}
+
+// One-pole filters; `a` is the smoothing coefficient (0..1).
+function lowpass(x, a) {
+    let s = 0;
+    return x.map(v => (s += a * (v - s)));
+}
+function highpass(x, a) {
+    const low = lowpass(x, a);
+    return x.map((v, i) => v - low[i]);
+}
+const noise = n => Array.from({ length: n }, () => uniform(-1, 1));
+const samples = seconds => Math.floor(SAMPLE_RATE * seconds);
+const TAU = 2 * Math.PI;
+
+// Four thuddy steps, every other one a little softer.
+function footsteps() {
+    const out = [];
+    for (let step = 0; step < 4; step++) {
+        const n = samples(0.6);
+        const scuff = lowpass(noise(n), 0.08);
+        for (let i = 0; i < n; i++) {
+            const t = i / SAMPLE_RATE;
+            const body = Math.sin(TAU * 70 * t) * Math.exp(-t * 30);
+            out.push((0.7 * scuff[i] * Math.exp(-t * 25) + 0.6 * body) * (step % 2 ? 0.8 : 1));
+        }
+    }
+    return out;
+}
+
+// Three knocks on wood.
+function doorKnock() {
+    const out = [];
+    for (let knock = 0; knock < 3; knock++) {
+        const n = samples(0.25);
+        const wood = lowpass(noise(n), 0.3);
+        for (let i = 0; i < n; i++) {
+            const t = i / SAMPLE_RATE;
+            out.push((Math.sin(TAU * 180 * t) * 0.8 + wood[i] * 0.5) * Math.exp(-t * 40));
+        }
+    }
+    return out.concat(new Array(samples(0.3)).fill(0));
+}
+
+// A rising, wavering voice with harmonics and breath.
+function scream() {
+    const n = samples(1.6);
+    const breath = highpass(noise(n), 0.2);
+    const out = [];
+    let phase = 0;
+    for (let i = 0; i < n; i++) {
+        const t = i / SAMPLE_RATE;
+        const f = 700 + 500 * Math.min(1, t / 0.3) - 150 * Math.max(0, t - 1) + 40 * Math.sin(TAU * 7 * t);
+        phase += TAU * f / SAMPLE_RATE;
+        const env = Math.min(1, t / 0.08) * (t < 1.2 ? 1 : Math.max(0, 1 - (t - 1.2) / 0.4));
+        const voice = Math.sin(phase) + 0.5 * Math.sin(2 * phase) + 0.3 * Math.sin(3 * phase) + 0.2 * Math.sin(5 * phase);
+        out.push(env * (0.6 * voice + 0.25 * breath[i]));
+    }
+    return out;
+}
+
+// Six jingles, each a handful of small high bells.
+function ghungroo() {
+    const n = samples(1.6);
+    const out = new Array(n).fill(0);
+    for (let jingle = 0; jingle < 6; jingle++) {
+        const start = samples(jingle * 0.22 + uniform(0, 0.03));
+        for (let bell = 0; bell < 5; bell++) {
+            const f = uniform(3000, 6500);
+            const length = samples(uniform(0.15, 0.35));
+            const offset = start + samples(uniform(0, 0.02));
+            for (let i = 0; i < length && offset + i < n; i++) {
+                const t = i / SAMPLE_RATE;
+                out[offset + i] += Math.sin(TAU * f * t) * Math.exp(-t * 18) * 0.4;
+            }
+        }
+    }
+    return out;
+}
+
+// A slow pitch glide up and back down.
+function dogHowl() {
+    const length = 2.6;
+    const out = [];
+    let phase = 0;
+    for (let i = 0; i < samples(length); i++) {
+        const t = i / SAMPLE_RATE;
+        const f = 420 + 180 * Math.sin(Math.PI * Math.min(t / length, 1)) + 8 * Math.sin(TAU * 5 * t);
+        phase += TAU * f / SAMPLE_RATE;
+        const env = Math.min(1, t / 0.4) * Math.min(1, (length - t) / 0.6);
+        out.push(env * (Math.sin(phase) + 0.35 * Math.sin(2 * phase) + 0.15 * Math.sin(3 * phase)));
+    }
+    return out;
+}
+
+// Filtered noise with droplets. The tail is crossfaded into the head so it loops cleanly.
+function rain() {
+    const n = samples(4);
+    const bed = highpass(lowpass(noise(n), 0.35), 0.02);
+    for (let drop = 0; drop < 160; drop++) {
+        const at = Math.floor(random() * n);
+        const level = uniform(0.3, 1);
+        for (let i = 0; i < 200 && at + i < n; i++) bed[at + i] += level * Math.exp(-i / 30) * uniform(-1, 1);
+    }
+    const fade = samples(0.5);
+    for (let i = 0; i < fade; i++) {
+        const w = i / fade;
+        bed[i] = bed[i] * w + bed[n - fade + i] * (1 - w);
+    }
+    return bed.slice(0, n - fade);
+}
+
+// Inharmonic partials with a long decay: frequency, level, decay rate.
+const BELL_PARTIALS = [[520, 1, 1.2], [1104, 0.6, 1.8], [1680, 0.4, 2.4], [2350, 0.25, 3.2], [3130, 0.15, 4]];
+
+function templeBell() {
+    return Array.from({ length: samples(3.5) }, (_, i) => {
+        const t = i / SAMPLE_RATE;
+        const ring = BELL_PARTIALS.reduce((sum, [f, level, decay]) => sum + level * Math.sin(TAU * f * t) * Math.exp(-t * decay), 0);
+        return ring * Math.min(1, t / 0.005);
+    });
+}
+
+// Order matters: each sound draws from the shared seeded noise in turn.
+const SOUNDS = {
+    'footsteps.wav': footsteps,
+    'door-knock.wav': doorKnock,
+    'scream.wav': scream,
+    'ghungroo.wav': ghungroo,
+    'dog-howl.wav': dogHowl,
+    'rain.wav': rain,
+    'temple-bell.wav': templeBell,
+};
+
+mkdirSync(OUT_DIR, { recursive: true });
+for (const [file, generate] of Object.entries(SOUNDS)) {
+    const data = wav(generate());
+    writeFileSync(join(OUT_DIR, file), data);
+    console.log(`Wrote ${file} (${(data.length / 1024).toFixed(1)} KB).`);
+}
@@ -0,0 +1,169 @@
+// Generates the short voice preview clips played by the idle screen's voice
+// picker (public/voices/<voice>.wav).
+//
+//   API_KEY=... npm run voice-previews     real clips from Gemini text-to-speech
+//   npm run voice-previews                 synthesized placeholders, no key needed
+//
+// The placeholders only hint at each voice (its pitch, pace and brightness
+// saying a wordless "na-mas-te"); they are built from scratch with seeded
+// noise, so every run writes the same files. Regenerate with a key to replace
+// them. Existing clips are kept; pass --force to regenerate them.
+import { GoogleGenAI, Modality } from '@google/genai';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+// Keep in sync with VOICES in src/personas.ts.
+const VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+const MODEL = 'gemini-2.5-flash-preview-tts';
+const SAMPLE_RATE = 24000;
+const OUT_DIR = join(process.cwd(), 'public', 'voices');
+
+const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+const force = process.argv.includes('--force');
+
+// 16-bit mono PCM in a WAV container.
+function wav(pcm) {
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + pcm.length, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);
+    header.writeUInt16LE(1, 22);
+    header.writeUInt32LE(SAMPLE_RATE, 24);
+    header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+    header.writeUInt16LE(2, 32);
+    header.writeUInt16LE(16, 34);
+    header.write('data', 36);
+    header.writeUInt32LE(pcm.length, 40);
+    return Buffer.concat([header, pcm]);
+}
+
+async function speak(ai, voice) {
+    const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: [{ parts: [{ text: `Say cheerfully: Namaste! Main ${voice} hoon. Ek joke sunoge?` }] }],
+        config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+        },
+    });
+    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    return data ? Buffer.from(data, 'base64') : null;
+}
+
+// --- Placeholders ---
+
+// Pitch (Hz), formant scale (vocal tract size), pace and breathiness, loosely
+// after each voice's description in the voice picker (src/i18n/en.ts).
+const PLACEHOLDER_VOICES = {
+    Kore: { pitch: 185, formants: 1.1, pace: 1, breath: 0.05 },
+    Puck: { pitch: 150, formants: 1.02, pace: 1.25, breath: 0.04 },
+    Charon: { pitch: 95, formants: 0.9, pace: 0.85, breath: 0.04 },
+    Fenrir: { pitch: 135, formants: 1, pace: 1.3, breath: 0.06 },
+    Aoede: { pitch: 205, formants: 1.14, pace: 0.95, breath: 0.15 },
+    Leda: { pitch: 240, formants: 1.2, pace: 1.1, breath: 0.07 },
+    Orus: { pitch: 105, formants: 0.92, pace: 0.9, breath: 0.03 },
+    Zephyr: { pitch: 225, formants: 1.18, pace: 1.05, breath: 0.05 },
+};
+
+// First three formants (Hz) of the vowels used.
+const VOWEL_FORMANTS = { a: [730, 1090, 2440], e: [530, 1840, 2480] };
+const FORMANT_GAINS = [1, 0.5, 0.25];
+
+// "na-mas-te": [onset, vowel, coda, seconds at pace 1].
+const SYLLABLES = [['n', 'a', '', 0.2], ['m', 'a', 's', 0.26], ['t', 'e', '', 0.34]];
+
+// mulberry32, seeded per voice so each clip is reproducible on its own.
+function seededRandom(seed) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Two-pole resonator centred on `frequency`.
+function resonator(frequency, bandwidth) {
+    const r = Math.exp(-Math.PI * bandwidth / SAMPLE_RATE);
+    const a1 = 2 * r * Math.cos(2 * Math.PI * frequency / SAMPLE_RATE);
+    const a2 = -r * r;
+    let y1 = 0;
+    let y2 = 0;
+    return x => {
+        const y = (1 - r) * x + a1 * y1 + a2 * y2;
+        y2 = y1;
+        y1 = y;
+        return y;
+    };
+}
+
+function placeholder(voice, index) {
+    const { pitch, formants, pace, breath } = PLACEHOLDER_VOICES[voice];
+    const random = seededRandom(index + 1);
+    const out = [];
+    let phase = 0;
+    const total = SYLLABLES.reduce((sum, s) => sum + s[3] / pace, 0);
+    let elapsed = 0;
+
+    for (const [onset, vowel, coda, seconds] of SYLLABLES) {
+        const length = Math.floor(SAMPLE_RATE * seconds / pace);
+        const filters = VOWEL_FORMANTS[vowel].map((f, i) => resonator(f * formants, 80 + 40 * i));
+        const nasal = resonator(260 * formants, 100);
+        const onsetLength = Math.floor(length * 0.25);
+        const codaStart = coda ? Math.floor(length * 0.7) : length;
+
+        for (let i = 0; i < length; i++) {
+            const t = (elapsed + i / SAMPLE_RATE) / total;
+            // Rise through the word, fall at the end, with a little vibrato.
+            const f0 = pitch * (1 + 0.15 * Math.sin(Math.PI * Math.min(1, t * 1.4)) - 0.2 * Math.max(0, t - 0.7)) * (1 + 0.01 * Math.sin(2 * Math.PI * 5.5 * t * total));
+            phase = (phase + f0 / SAMPLE_RATE) % 1;
+            const glottal = (1 - 2 * phase) + breath * (random() * 2 - 1);
+            const noise = random() * 2 - 1;
+
+            let sample;
+            if (i < onsetLength && (onset === 'n' || onset === 'm')) {
+                sample = nasal(glottal) * 0.8;
+            } else if (i < onsetLength * 0.4 && onset === 't') {
+                sample = noise * 0.3 * (1 - i / (onsetLength * 0.4));
+            } else if (i >= codaStart) {
+                sample = noise * 0.12 * Math.min(1, (length - i) / (SAMPLE_RATE * 0.03));
+            } else {
+                sample = filters.reduce((sum, filter, k) => sum + FORMANT_GAINS[k] * filter(glottal), 0);
+            }
+            // Short fades at syllable edges avoid clicks.
+            const edge = Math.min(1, i / (SAMPLE_RATE * 0.01), (length - i) / (SAMPLE_RATE * 0.01));
+            out.push(sample * edge);
+        }
+        elapsed += length / SAMPLE_RATE;
+    }
+
+    const peak = out.reduce((max, v) => Math.max(max, Math.abs(v)), 1e-9);
+    const pcm = Buffer.alloc(out.length * 2);
+    out.forEach((v, i) => pcm.writeInt16LE(Math.round(v * 0.8 / peak * 32767), i * 2));
+    return pcm;
+}
+
+// --- Generate ---
+
+if (!apiKey) console.warn('No API_KEY (or GEMINI_API_KEY) set: writing synthesized placeholder clips.');
+const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+mkdirSync(OUT_DIR, { recursive: true });
+
+for (const [index, voice] of VOICES.entries()) {
+    const file = join(OUT_DIR, `${voice.toLowerCase()}.wav`);
+    if (existsSync(file) && !force) {
+        console.log(`${voice}: ${file} exists, skipping.`);
+        continue;
+    }
+    const pcm = ai ? await speak(ai, voice) : placeholder(voice, index);
+    if (!pcm) {
+        console.error(`${voice}: no audio in the response.`);
+        process.exitCode = 1;
+        continue;
+    }
+    writeFileSync(file, wav(pcm));
+    console.log(`${voice}: wrote ${file}.`);
+}
@@ -0,0 +1,122 @@
+// A small local server that keeps the Gemini API key out of the browser. The
+// app asks it for short-lived, single-use ephemeral tokens and opens its live
+// sessions with those instead of the key.
+//
+//   API_KEY=... npm run proxy        (or put API_KEY in .env.local)
+//
+// Endpoints:
+//   GET  /api/health   200 { ok: true } when a key is configured, 503 otherwise
+//   POST /api/token    201 { token, expireTime, newSessionExpireTime }
+//                      429 with Retry-After when a client asks too often
+import { GoogleGenAI } from '@google/genai';
+import { existsSync, readFileSync } from 'fs';
+import { createServer } from 'http';
+
+// Same files vite reads; real environment variables win.
+for (const file of ['.env.local', '.env']) {
+    if (!existsSync(file)) continue;
+    for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+        const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*$/);
+        if (match && process.env[match[1]] === undefined) {
+            process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+        }
+    }
+}
+
+const PORT = Number(process.env.TOKEN_PROXY_PORT) || 8787;
+const API_KEY = process.env.API_KEY || process.env.GEMINI_API_KEY;
+// A session must start within a minute of minting; the token dies after 30.
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+// Token bucket per client: bursts of RATE_LIMIT_BURST, refilled at RATE_LIMIT_PER_MINUTE.
+// Every connect of a call takes a token, so the burst covers a call's first connect,
+// all five of its reconnect attempts and a GoAway handover or two.
+const RATE_LIMIT_BURST = Number(process.env.TOKEN_RATE_LIMIT_BURST) || 10;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.TOKEN_RATE_LIMIT_PER_MINUTE) || 6;
+const BUCKET_IDLE_MS = 10 * 60 * 1000;
+// Only set behind a reverse proxy you run: anyone can send X-Forwarded-For.
+const TRUST_PROXY = /^(1|true|yes)$/i.test(process.env.TOKEN_PROXY_TRUST_PROXY ?? '');
+
+const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY, httpOptions: { apiVersion: 'v1alpha' } }) : null;
+const buckets = new Map();
+
+// The socket's address, unless a trusted proxy is in front. That proxy appends the
+// address it saw to X-Forwarded-For, so the last entry is the one to believe;
+// earlier entries come from the client and can be made up.
+function clientId(req) {
+    if (TRUST_PROXY) {
+        const forwarded = req.headers['x-forwarded-for'];
+        const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+        if (last) return last;
+    }
+    return req.socket.remoteAddress || 'unknown';
+}
+
+// Takes a token from the client's bucket. Returns 0, or the seconds to wait.
+function takeToken(id) {
+    const now = Date.now();
+    const bucket = buckets.get(id) ?? { tokens: RATE_LIMIT_BURST, updatedAt: now };
+    bucket.tokens = Math.min(RATE_LIMIT_BURST, bucket.tokens + (now - bucket.updatedAt) * RATE_LIMIT_PER_MINUTE / 60000);
+    bucket.updatedAt = now;
+    buckets.set(id, bucket);
+    if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) * 60 / RATE_LIMIT_PER_MINUTE);
+}
+
+// Forget clients that have gone quiet so the map doesn't grow forever.
+setInterval(() => {
+    const cutoff = Date.now() - BUCKET_IDLE_MS;
+    buckets.forEach((bucket, id) => {
+        if (bucket.updatedAt < cutoff) buckets.delete(id);
+    });
+}, BUCKET_IDLE_MS).unref();
+
+function send(res, status, body, headers = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+async function mintToken() {
+    const now = Date.now();
+    const expireTime = new Date(now + TOKEN_LIFETIME_MS).toISOString();
+    const newSessionExpireTime = new Date(now + NEW_SESSION_WINDOW_MS).toISOString();
+    const token = await ai.authTokens.create({
+        config: { uses: 1, expireTime, newSessionExpireTime, httpOptions: { apiVersion: 'v1alpha' } },
+    });
+    return { token: token.name, expireTime, newSessionExpireTime };
+}
+
+const server = createServer(async (req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'GET' && path === '/api/health') {
+        return ai ? send(res, 200, { ok: true }) : send(res, 503, { ok: false, error: 'API_KEY is not set on the token proxy.' });
+    }
+
+    if (req.method === 'POST' && path === '/api/token') {
+        if (!ai) return send(res, 503, { error: 'API_KEY is not set on the token proxy.' });
+        const id = clientId(req);
+        const retryAfter = takeToken(id);
+        if (retryAfter > 0) {
+            console.warn(`Rate limited ${id}; retry in ${retryAfter}s.`);
+            return send(res, 429, { error: `Too many token requests. Try again in ${retryAfter}s.` }, { 'Retry-After': String(retryAfter) });
+        }
+        try {
+            const body = await mintToken();
+            console.log(`Minted a token for ${id}.`);
+            return send(res, 201, body);
+        } catch (error) {
+            console.error('Could not mint a token:', error);
+            return send(res, 502, { error: 'Could not get a session token from the Gemini API.' });
+        }
+    }
+
+    send(res, 404, { error: 'Not found.' });
+});
+
+server.listen(PORT, () => {
+    console.log(`Token proxy listening on http://localhost:${PORT}${API_KEY ? '' : ' (API_KEY is not set; /api/token will fail)'}.`);
+});
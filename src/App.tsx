@@ -1,60 +1,87 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 // FIX: Remove LiveSession from imports as it's not a public type.
-import { GoogleGenAI, Modality, LiveServerMessage, FunctionDeclaration, Type } from '@google/genai';
-import { TranscriptionEntry } from './types';
-import { decode, decodeAudioData, createPcmBlob } from './utils/audio';
+import { LiveConnectConfig, Modality, LiveServerMessage } from '@google/genai';
+import { AppTheme, CallRecord, FamilySafetySettings, JokeRating, Persona, RatedJoke, TranscriptionEntry } from './types';
+import { BUILT_IN_PERSONAS, buildSystemInstruction, deleteCustomPersona, loadCustomPersonas, loadExtraPersonas, mergePersonas, parsePersonaFile, PersonaFileError, saveCustomPersona, serializePersonas } from './personas';
+import { buildToolsConfig, toolDeclarations } from './tools';
+import { createToolDispatcher, ToolCallError } from './toolDispatch';
+import { getSound, loadSoundBuffer, preloadSounds, SoundDefinition } from './sounds/library';
+import { COMEDY_SYNTHS, ComedyIntensity } from './sounds/comedy';
+import { AmbienceLayerInfo, AmbienceMixer, createAmbienceMixer } from './sounds/ambience';
+import { createBufferSynthVoice, isBufferSynthSound } from './sounds/synth';
+import { createEffectScheduler, EffectScheduler } from './sounds/scheduler';
+import { createSpatialNode, isSoundPosition, SoundPosition } from './sounds/spatial';
+import { Ducker, resolveDucking, startDucker } from './sounds/ducker';
+import { createCallId, deleteCall, loadCallHistory, saveCall } from './callHistory';
+import { applyJokeFeedback, buildTasteSummary, deleteRatedJoke, isJokeKept, jokeId, loadRatedJokes, saveRatedJoke } from './jokes';
+import { DEFAULT_FAMILY_SAFETY, findBlockedTerm, maskBlockedTerms, REDIRECT_PROMPT, visibleJokes, visiblePersonas } from './safety';
+import { checkProxyHealth, createLiveTransport, isFakeTransport, LiveSession, TOKEN_PROXY_URL } from './transport';
+import { downloadBlob } from './utils/download';
+import { API_INPUT_SAMPLE_RATE, API_OUTPUT_SAMPLE_RATE, createAudioContext, createResampler, decode, decodeAudioData, parseSampleRate, pcm16ToBlob } from './utils/audio';
+import { MicCapture, startMicCapture } from './utils/micCapture';
+import { CallRecorder, CallRecording, compressedExtension, startCallRecorder } from './utils/callRecorder';
+import { loadSetting, saveSetting } from './utils/storage';
+import { TranscriptScript } from './utils/transliterate';
+import { createLevelAnalyser } from './utils/levels';
+import { formatClock, LANGUAGES, useI18n } from './i18n';
 import CallButton from './components/RecordButton';
-import TranscriptionPanel from './components/TranscriptionPanel';
+import TranscriptionPanel, { JokeFeedback } from './components/TranscriptionPanel';
+import PersonaEditor from './components/PersonaEditor';
+import TranscriptExportMenu from './components/TranscriptExportMenu';
+import CallHistory from './components/CallHistory';
+import VoicePicker from './components/VoicePicker';
+import CallControls from './components/CallControls';
+import ChatInput from './components/ChatInput';
+import ParentalControls from './components/ParentalControls';
+import HorrorGate from './components/HorrorGate';
+import FavoritesLibrary from './components/FavoritesLibrary';
+import AIAvatar from './components/AIAvatar';
+import { MicLevelMeter, OutputVisualizer } from './components/AudioVisualizers';
+
+type CallState = 'idle' | 'calling' | 'active' | 'reconnecting' | 'ended';
+type AppScreen = 'call' | 'personas' | 'history' | 'favorites' | 'family' | 'horrorGate';
+// Voice calls use the mic; text mode sends typed turns and still gets spoken replies.
+type CallMode = 'voice' | 'text';
+type MicErrorKind = 'generic' | 'denied' | 'notFound' | 'inUse';
+
+// Reconnect backoff: 0.5s, 1s, 2s, 4s, 8s, then give up.
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+// A connection has to stay up this long before the attempts count starts over, so a
+// server that accepts and immediately drops the socket can't keep the call retrying.
+const STABLE_CONNECTION_MS = 10000;
+// How early to hand over before a GoAway deadline, and the deadline to assume if none is given.
+const GO_AWAY_MARGIN_MS = 1500;
+const GO_AWAY_DEFAULT_SECONDS = 10;
+
+const DEFAULT_AMBIENCE_FADE_SECONDS = 1;
+// Ambience is kept below the narrator's voice.
+const MAX_AMBIENCE_VOLUME = 0.8;
+const HOLD_MUSIC = 'hold-music';
+const HOLD_FADE_SECONDS = 0.5;
+// Longest synthesized one-shot (the 2 s noise buffers), used to time 3D movement.
+const SYNTH_EFFECT_SECONDS = 2;
+
+// Call-relative times (ms) of the first and latest transcription chunk of the current turn.
+interface TurnTimes {
+    inputStart: number | null;
+    inputEnd: number | null;
+    outputStart: number | null;
+    outputEnd: number | null;
+}
 
-type AppCategory = 'Hindi' | 'Bihari Hindi' | 'Santa Banta' | 'Husband-Wife' | 'Hindi Horror' | 'Bihari Horror';
-type CallState = 'idle' | 'calling' | 'active' | 'ended';
-type AppTheme = 'jokes' | 'horror';
+const emptyTurnTimes = (): TurnTimes => ({ inputStart: null, inputEnd: null, outputStart: null, outputEnd: null });
 // FIX: Define a specific type for sound effects for better type safety and code readability.
+// Sample-based sounds are looked up by name in the sound manifest instead.
 type SoundEffect = 'connect' | 'disconnect' | 'pop' | 'creak' | 'whisper' | 'heartbeat' | 'wind' | 'thump';
 
 
-const CATEGORIES: AppCategory[] = ['Hindi', 'Bihari Hindi', 'Santa Banta', 'Husband-Wife', 'Hindi Horror', 'Bihari Horror'];
-
-// --- Tool Definition for Sound Effects ---
-const playSoundEffectFunctionDeclaration: FunctionDeclaration = {
-    name: 'playSoundEffect',
-    description: 'Plays a sound effect to enhance the horror story atmosphere. Use this for dramatic moments or continuous background atmosphere.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            soundName: {
-                type: Type.STRING,
-                description: "The name of the sound effect to play. Available sounds: 'creak', 'whisper', 'heartbeat', 'wind', 'thump'.",
-            },
-            loop: {
-                type: Type.BOOLEAN,
-                description: "Whether the sound should loop continuously in the background. Defaults to false. Use 'true' for atmospheric sounds like 'wind' or 'heartbeat'."
-            }
-        },
-        required: ['soundName'],
-    },
-};
-
-const setAmbianceVolumeFunctionDeclaration: FunctionDeclaration = {
-    name: 'setAmbianceVolume',
-    description: 'Adjusts the volume of the continuous background sound effect to match the story\'s intensity. Use this to build suspense or create a jump scare.',
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            volume: {
-                type: Type.NUMBER,
-                description: "The desired volume level from 0.0 (silent) to 1.0 (max). For example: 0.1 for a subtle atmosphere, 0.3 for rising tension, 0.6 for a climactic moment.",
-            },
-        },
-        required: ['volume'],
-    },
-};
-
-
 // --- Helper Components ---
 
 const CallTimer: React.FC<{ startTime: number }> = ({ startTime }) => {
+    const { t, formatDuration } = useI18n();
     const [elapsedSeconds, setElapsedSeconds] = useState(0);
 
     useEffect(() => {
@@ -65,85 +92,424 @@ const CallTimer: React.FC<{ startTime: number }> = ({ startTime }) => {
         return () => clearInterval(intervalId);
     }, [startTime]);
 
-    const formatTime = (seconds: number) => {
-        const mins = Math.floor(seconds / 60).toString().padStart(2, '0');
-        const secs = (seconds % 60).toString().padStart(2, '0');
-        return `${mins}:${secs}`;
-    };
-
-    return <p className="text-slate-400 text-lg">{formatTime(elapsedSeconds)}</p>;
+    return (
+        <p className="text-slate-400 text-lg" aria-label={t('call.elapsed', { duration: formatDuration(elapsedSeconds) })}>
+            {formatClock(elapsedSeconds)}
+        </p>
+    );
 };
 
-const AIAvatar: React.FC<{theme: AppTheme}> = ({ theme }) => {
-    const jokeAvatar = "😂";
-    const horrorAvatar = "🌙";
-    const jokeBg = "bg-gradient-to-br from-amber-400 to-orange-600";
-    const horrorBg = "bg-gradient-to-br from-indigo-800 to-rose-900";
+const RecordingIndicator: React.FC = () => {
+    const { t } = useI18n();
+    return (
+        <span className="flex items-center gap-1.5 text-xs font-semibold text-red-400" aria-label={t('recording.active')}>
+            <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse"></span>
+            {t('recording.badge')}
+        </span>
+    );
+};
 
+const RecordingDownloads: React.FC<{ recording: CallRecording; fileBase: string }> = ({ recording, fileBase }) => {
+    const { t, formatDuration } = useI18n();
     return (
-        <div className={`w-32 h-32 ${theme === 'jokes' ? jokeBg : horrorBg} rounded-full flex items-center justify-center shadow-lg mb-4`}>
-            <span className="text-6xl font-bold text-slate-900 drop-shadow-lg">{theme === 'jokes' ? jokeAvatar : horrorAvatar}</span>
+        <div className="flex flex-wrap justify-center items-center gap-2 mt-3 animate-[fade-in-up_0.5s_ease-out]">
+            <span className="text-xs text-slate-400 w-full">{t('recording.title', { duration: formatDuration(recording.durationSeconds) })}</span>
+            <button
+                onClick={() => downloadBlob(recording.wav, `${fileBase}.wav`)}
+                className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600"
+            >
+                {t('recording.downloadWav')}
+            </button>
+            {recording.compressed && (
+                <button
+                    onClick={() => downloadBlob(recording.compressed!, `${fileBase}.${compressedExtension(recording.compressed!)}`)}
+                    className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600"
+                >
+                    {t('recording.downloadCompressed')}
+                </button>
+            )}
         </div>
     );
-}
-
+};
 
 // --- Main App Component ---
 
 const App: React.FC = () => {
+    const { t, language, setLanguage, formatDuration } = useI18n();
     const [callState, setCallState] = useState<CallState>('idle');
-    const [category, setCategory] = useState<AppCategory>('Hindi');
-    const [theme, setTheme] = useState<AppTheme>('jokes');
-    
+    const [screen, setScreen] = useState<AppScreen>('call');
+    const [extraPersonas, setExtraPersonas] = useState<Persona[]>([]);
+    const [customPersonas, setCustomPersonas] = useState<Persona[]>([]);
+    const [personaImportError, setPersonaImportError] = useState<PersonaFileError | null>(null);
+    // Parent settings; older saves may lack newer fields.
+    const [familySafety, setFamilySafety] = useState<FamilySafetySettings>(() => ({ ...DEFAULT_FAMILY_SAFETY, ...loadSetting<Partial<FamilySafetySettings>>('familySafety', {}) }));
+    // The caller confirmed their age for horror personas; asked again only if this is cleared.
+    const [horrorConsent, setHorrorConsent] = useState<boolean>(() => loadSetting('horrorConsent', false));
+    const [pendingHorrorId, setPendingHorrorId] = useState<string | null>(null);
+    const allPersonas = mergePersonas(BUILT_IN_PERSONAS, extraPersonas, customPersonas);
+    const personas = visiblePersonas(allPersonas, familySafety);
+    const [category, setCategory] = useState<string>(BUILT_IN_PERSONAS[0].id);
+    const persona = personas.find(p => p.id === category) ?? personas[0];
+    const theme: AppTheme = persona.theme;
+
+    const [callHistory, setCallHistory] = useState<CallRecord[]>([]);
+    const [ratedJokes, setRatedJokes] = useState<RatedJoke[]>([]);
+    // Kept in step with ratedJokes so quick successive clicks build on each other.
+    const ratedJokesRef = useRef<RatedJoke[]>([]);
+    const updateRatedJokes = (jokes: RatedJoke[]) => {
+        ratedJokesRef.current = jokes;
+        setRatedJokes(jokes);
+    };
+    const libraryJokes = visibleJokes(ratedJokes, allPersonas, familySafety);
+
+    useEffect(() => {
+        loadExtraPersonas(process.env.PERSONAS_URL as string).then(setExtraPersonas);
+        loadCustomPersonas().then(setCustomPersonas);
+        loadCallHistory().then(setCallHistory);
+        loadRatedJokes().then(updateRatedJokes);
+    }, []);
+
+    useEffect(() => {
+        saveSetting('familySafety', familySafety);
+    }, [familySafety]);
+
     useEffect(() => {
-        setTheme(category.includes('Horror') ? 'horror' : 'jokes');
-    }, [category]);
+        saveSetting('horrorConsent', horrorConsent);
+    }, [horrorConsent]);
+
+    // Horror personas wait behind the age/consent screen until the caller confirms once.
+    const selectPersona = (p: Persona) => {
+        if (p.theme === 'horror' && !horrorConsent) {
+            setPendingHorrorId(p.id);
+            setScreen('horrorGate');
+            return;
+        }
+        setCategory(p.id);
+    };
+
+    const handleHorrorConsent = () => {
+        setHorrorConsent(true);
+        if (pendingHorrorId) setCategory(pendingHorrorId);
+        setPendingHorrorId(null);
+        setScreen('call');
+    };
+
+    // Without consent a horror persona can't stay selected either.
+    const resetHorrorConsent = () => {
+        setHorrorConsent(false);
+        if (persona.theme === 'horror') setCategory(BUILT_IN_PERSONAS[0].id);
+    };
+
+    const handleDeleteCall = async (id: string) => {
+        try {
+            await deleteCall(id);
+            setCallHistory(prev => prev.filter(c => c.id !== id));
+        } catch (error) {
+            console.error('Could not delete call:', error);
+        }
+    };
+
+    // Stores a rating or favorite change, or forgets the joke once it has neither.
+    const changeJoke = async (base: Omit<RatedJoke, 'rating' | 'favorite' | 'savedAt'>, change: { rating: JokeRating } | { favorite: boolean }) => {
+        const current = ratedJokesRef.current;
+        const existing = current.find(j => j.id === base.id);
+        const joke = applyJokeFeedback(existing, base, change);
+        const kept = isJokeKept(joke);
+        if (!kept) updateRatedJokes(current.filter(j => j.id !== joke.id));
+        else updateRatedJokes(existing ? current.map(j => j.id === joke.id ? joke : j) : [joke, ...current]);
+        try {
+            if (kept) await saveRatedJoke(joke);
+            else await deleteRatedJoke(joke.id);
+        } catch (error) {
+            console.error('Could not save joke rating:', error);
+        }
+    };
+
+    const jokeFeedback = (callStartedAt: number, personaLabel: string): JokeFeedback => {
+        const baseFor = (entry: TranscriptionEntry) => ({ id: jokeId(callStartedAt, entry), text: entry.text, category: entry.category, personaLabel });
+        const jokeFor = (entry: TranscriptionEntry) => ratedJokes.find(j => j.id === jokeId(callStartedAt, entry));
+        return {
+            jokeFor,
+            onRate: (entry, rating) => changeJoke(baseFor(entry), { rating }),
+            onToggleFavorite: (entry) => {
+                const id = jokeId(callStartedAt, entry);
+                changeJoke(baseFor(entry), { favorite: !ratedJokesRef.current.find(j => j.id === id)?.favorite });
+            },
+        };
+    };
+
+    const handleSavePersona = async (p: Persona) => {
+        try {
+            await saveCustomPersona(p);
+            setCustomPersonas(await loadCustomPersonas());
+        } catch (error) {
+            console.error('Could not save persona:', error);
+        }
+    };
+
+    const handleDeletePersona = async (id: string) => {
+        try {
+            await deleteCustomPersona(id);
+            setCustomPersonas(prev => prev.filter(p => p.id !== id));
+            if (category === id) setCategory(BUILT_IN_PERSONAS[0].id);
+        } catch (error) {
+            console.error('Could not delete persona:', error);
+        }
+    };
+
+    const handleExportPersonas = () => {
+        const blob = new Blob([serializePersonas(customPersonas)], { type: 'application/json' });
+        downloadBlob(blob, 'baishaha-personas.json');
+    };
+
+    const handleImportPersonas = async (file: File) => {
+        setPersonaImportError(null);
+        try {
+            const imported = parsePersonaFile(await file.text(), allPersonas.map(p => p.id));
+            await Promise.all(imported.map(saveCustomPersona));
+            setCustomPersonas(await loadCustomPersonas());
+        } catch (error) {
+            console.error('Could not import personas:', error);
+            setPersonaImportError(error instanceof PersonaFileError ? error : new PersonaFileError('saveFailed', (error as Error).message));
+        }
+    };
 
     const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
     const [isAiThinking, setIsAiThinking] = useState(false);
     
-    const [micError, setMicError] = useState<string | null>(null);
+    const [micError, setMicError] = useState<MicErrorKind | null>(null);
+    // The last call was ended by family-safe mode, which the ended screen explains.
+    const [endedBySafety, setEndedBySafety] = useState(false);
+    const [callMode, setCallMode] = useState<CallMode>('voice');
     const [volume, setVolume] = useState(1.0);
 
     const currentInputRef = useRef('');
     const currentOutputRef = useRef('');
+    const transcriptionsRef = useRef<TranscriptionEntry[]>([]);
+    const turnTimesRef = useRef<TurnTimes>(emptyTurnTimes());
     const [partialInput, setPartialInput] = useState('');
     const [partialOutput, setPartialOutput] = useState('');
 
     const [callStartTime, setCallStartTime] = useState<number | null>(null);
     const [callDuration, setCallDuration] = useState<number>(0);
+    const callStartRef = useRef<number>(0);
+    const activePersonaRef = useRef<Persona>(persona);
+    const [lastTranscript, setLastTranscript] = useState<{ entries: TranscriptionEntry[]; persona: Persona; startedAt: number } | null>(null);
+
+    const [recordCalls, setRecordCalls] = useState<boolean>(() => loadSetting('recordCalls', false));
+    const [spatialAudio, setSpatialAudio] = useState<boolean>(() => loadSetting('spatialAudio', false));
+    // The caller's voice choice per category, where it differs from the persona's own.
+    const [voiceOverrides, setVoiceOverrides] = useState<Record<string, string>>(() => loadSetting('voiceOverrides', {}));
+    const voiceName = voiceOverrides[persona.id] ?? persona.voiceName;
+    // Script for transcripts on screen and in exports.
+    const [transcriptScript, setTranscriptScript] = useState<TranscriptScript>(() => loadSetting('transcriptScript', 'original'));
+    const [isRecording, setIsRecording] = useState(false);
+    const [lastRecording, setLastRecording] = useState<CallRecording | null>(null);
 
-    // FIX: Use `any` for the session promise reference as LiveSession is not a public type.
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
+    useEffect(() => {
+        saveSetting('recordCalls', recordCalls);
+    }, [recordCalls]);
+
+    useEffect(() => {
+        saveSetting('spatialAudio', spatialAudio);
+    }, [spatialAudio]);
+
+    useEffect(() => {
+        saveSetting('voiceOverrides', voiceOverrides);
+    }, [voiceOverrides]);
+
+    useEffect(() => {
+        saveSetting('transcriptScript', transcriptScript);
+    }, [transcriptScript]);
+
+    // In-call mic controls. Audio only goes to the model while the mic is "open".
+    const [isMuted, setIsMuted] = useState(false);
+    const [pushToTalk, setPushToTalk] = useState<boolean>(() => loadSetting('pushToTalk', false));
+    const [isTalking, setIsTalking] = useState(false);
+    const [isOnHold, setIsOnHold] = useState(false);
+    const micOpenRef = useRef(true);
+    const isOnHoldRef = useRef(false);
+    // Speech cut off by hold (and any that arrives during it), replayed on resume.
+    const heldSpeechRef = useRef<{ buffer: AudioBuffer; offset: number }[]>([]);
+    const heldAmbienceRef = useRef<AmbienceLayerInfo[]>([]);
+
+    useEffect(() => {
+        saveSetting('pushToTalk', pushToTalk);
+    }, [pushToTalk]);
+
+    useEffect(() => {
+        const open = !isMuted && !isOnHold && (!pushToTalk || isTalking);
+        if (micOpenRef.current && !open && sessionOpenRef.current) {
+            // Tell the server's voice detection the caller has stopped, rather than leaving it waiting on silence.
+            sessionPromiseRef.current?.then(s => s.sendRealtimeInput({ audioStreamEnd: true }));
+        }
+        micOpenRef.current = open;
+    }, [isMuted, isOnHold, pushToTalk, isTalking]);
+
+    // Space bar push-to-talk, unless the caller is typing somewhere.
+    useEffect(() => {
+        if (!pushToTalk || callState !== 'active' || callMode !== 'voice') return;
+        const isTyping = (target: EventTarget | null) =>
+            target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e.target)) return;
+            e.preventDefault();
+            if (!e.repeat) setIsTalking(true);
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e.target)) return;
+            e.preventDefault();
+            setIsTalking(false);
+        };
+        const handleBlur = () => setIsTalking(false);
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+            setIsTalking(false);
+        };
+    }, [pushToTalk, callState, callMode]);
+
+    // The API key lives in the token proxy; make sure it's there before offering calls.
+    const [proxyStatus, setProxyStatus] = useState<'checking' | 'ok' | 'unavailable'>(isFakeTransport ? 'ok' : 'checking');
+    const checkProxy = useCallback(() => {
+        if (isFakeTransport) return;
+        setProxyStatus('checking');
+        checkProxyHealth().then(ok => setProxyStatus(ok ? 'ok' : 'unavailable'));
+    }, []);
+
+    useEffect(() => {
+        checkProxy();
+    }, [checkProxy]);
+
+    const handleVoiceChange = (voice: string) => {
+        setVoiceOverrides(prev => {
+            const { [persona.id]: _previous, ...rest } = prev;
+            return voice === persona.voiceName ? rest : { ...rest, [persona.id]: voice };
+        });
+    };
+
+    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
     const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const masterGainRef = useRef<GainNode | null>(null);
+    // Effects and ambience share a bus into the master gain, so they can duck under speech together.
+    const effectsBusRef = useRef<GainNode | null>(null);
+    // AI speech gets its own bus so the visualizers can listen to just the voice.
+    const speechBusRef = useRef<GainNode | null>(null);
+    const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+    const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+    const duckerRef = useRef<Ducker | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    const micCaptureRef = useRef<MicCapture | null>(null);
+    const callRecorderRef = useRef<CallRecorder | null>(null);
     const nextStartTimeRef = useRef<number>(0);
+    const speechStartTimesRef = useRef(new WeakMap<AudioBufferSourceNode, number>());
     const outputSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-    const ambientSourceRef = useRef<AudioBufferSourceNode | null>(null);
-    const ambientGainRef = useRef<GainNode | null>(null);
+    const ambienceMixerRef = useRef<AmbienceMixer | null>(null);
+    const effectSchedulerRef = useRef<EffectScheduler | null>(null);
     const isEndingRef = useRef(false); // Lock to prevent error race conditions
+    const sessionOpenRef = useRef(false);
+    const connectionIdRef = useRef(0);
+    const reconnectAttemptRef = useRef(0);
+    const reconnectTimerRef = useRef<number | undefined>(undefined);
+    const stableTimerRef = useRef<number | undefined>(undefined);
+    const resumptionHandleRef = useRef<string | null>(null);
+    const handoverPendingRef = useRef(false);
+    const goAwayTimerRef = useRef<number | undefined>(undefined);
+
+
+    const playSample = useCallback((sound: SoundDefinition, position?: SoundPosition) => {
+        const audioCtx = outputAudioContextRef.current;
+        if (!audioCtx) return;
+        loadSoundBuffer(audioCtx, sound).then(buffer => {
+            // The call may have ended, or the context changed, while the sample was loading.
+            const output = effectsBusRef.current;
+            if (audioCtx !== outputAudioContextRef.current || !output) return;
+            const source = audioCtx.createBufferSource();
+            source.buffer = buffer;
+            const gainNode = audioCtx.createGain();
+            gainNode.gain.value = sound.gain;
+            source.connect(gainNode);
+            if (position) {
+                const spatial = createSpatialNode(audioCtx, output, position, buffer.duration);
+                gainNode.connect(spatial.node);
+                source.addEventListener('ended', () => spatial.stop());
+            } else {
+                gainNode.connect(output);
+            }
+            source.start();
+        }).catch(error => console.error(`Could not play sound '${sound.name}':`, error));
+    }, []);
+
+    // Starts (or crossfades) a looping ambience layer. Resolves to false if the sound can't loop.
+    const startAmbience = useCallback(async (layer: string, soundName: string, options: { volume?: number; fadeSeconds?: number; position?: SoundPosition } = {}): Promise<boolean> => {
+        const audioCtx = outputAudioContextRef.current;
+        const mixer = ambienceMixerRef.current;
+        if (!audioCtx || !mixer) return false;
+        const fadeSeconds = options.fadeSeconds ?? DEFAULT_AMBIENCE_FADE_SECONDS;
+        // Puts the loop's output through a panner, which the mixer then treats as the voice's last node.
+        const place = (source: AudioScheduledSourceNode, output: AudioNode): AudioNode => {
+            if (!options.position) return output;
+            const spatial = createSpatialNode(audioCtx, null, options.position);
+            output.connect(spatial.node);
+            source.addEventListener('ended', () => spatial.stop());
+            return spatial.node;
+        };
 
+        const sound = getSound(soundName);
+        if (sound?.file) {
+            const buffer = await loadSoundBuffer(audioCtx, sound);
+            if (audioCtx !== outputAudioContextRef.current) return false;
+            const source = audioCtx.createBufferSource();
+            source.buffer = buffer;
+            source.loop = true;
+            mixer.start(layer, soundName, { source, output: place(source, source) }, { volume: options.volume ?? sound.gain, fadeSeconds });
+            return true;
+        }
+        if (isBufferSynthSound(soundName)) {
+            const voice = createBufferSynthVoice(audioCtx, soundName);
+            voice.source.loop = true;
+            mixer.start(layer, soundName, { source: voice.source, output: place(voice.source, voice.output) }, { volume: options.volume ?? voice.level, fadeSeconds });
+            return true;
+        }
+        return false;
+    }, []);
 
-    const playSound = useCallback((type: SoundEffect, loop: boolean = false) => {
-        if (!outputAudioContextRef.current || !masterGainRef.current) return;
+    const playSound = useCallback((type: SoundEffect | string, loop: boolean = false, intensity: ComedyIntensity = 'medium', position?: SoundPosition) => {
+        const output = effectsBusRef.current;
+        if (!outputAudioContextRef.current || !output) return;
         const audioCtx = outputAudioContextRef.current;
         if (audioCtx.state === 'suspended') {
             audioCtx.resume();
         }
 
-        if (loop && ambientSourceRef.current) {
-            try { ambientSourceRef.current.stop(); } catch(e) {}
-            ambientSourceRef.current = null;
-            ambientGainRef.current = null;
+        // Loops run on their own ambience layer, named after the sound.
+        if (loop) {
+            startAmbience(type, type, { position }).catch(error => console.error(`Could not start ambience '${type}':`, error));
+            return;
+        }
+
+        const sample = getSound(type);
+        if (sample?.file) {
+            playSample(sample, position);
+            return;
+        }
+
+        const comedySynth = COMEDY_SYNTHS[type];
+        if (comedySynth) {
+            const comedyGain = audioCtx.createGain();
+            comedyGain.gain.value = sample?.gain ?? 1;
+            comedyGain.connect(output);
+            comedySynth(audioCtx, comedyGain, audioCtx.currentTime, intensity);
+            return;
         }
 
         const now = audioCtx.currentTime;
         let mainNode: AudioNode;
-        let sourceToStore: AudioBufferSourceNode | null = null;
-        let oneShot = true;
 
         const gainNode = audioCtx.createGain();
 
@@ -189,71 +555,81 @@ const App: React.FC = () => {
             }
              oscillator.start(now);
              oscillator.stop(now + 1);
-        } else { // Buffer-based sounds
-            oneShot = false;
-            const bufferSize = audioCtx.sampleRate * 2; // 2 seconds buffer for looping
-            const buffer = audioCtx.createBuffer(1, bufferSize, audioCtx.sampleRate);
-            const data = buffer.getChannelData(0);
-            const source = audioCtx.createBufferSource();
-            source.buffer = buffer;
-            sourceToStore = source;
-            mainNode = source;
-
-            switch (type) {
-                 case 'whisper': // Whisper remains one-shot but uses a buffer
-                    oneShot = true;
-                     for (let i = 0; i < buffer.length; i++) {
-                        data[i] = Math.random() * 2 - 1;
-                    }
-                    const filter = audioCtx.createBiquadFilter();
-                    filter.type = 'bandpass';
-                    filter.frequency.value = 4000;
-                    filter.Q.value = 2;
-                    source.connect(filter);
-                    mainNode = filter;
-                    gainNode.gain.setValueAtTime(0.02, now);
-                    gainNode.gain.exponentialRampToValueAtTime(0.0001, now + 1);
-                    break;
-                case 'wind':
-                     for (let i = 0; i < buffer.length; i++) {
-                        data[i] = Math.random() * 2 - 1; // White noise
-                    }
-                    const windFilter = audioCtx.createBiquadFilter();
-                    windFilter.type = 'lowpass';
-                    windFilter.frequency.value = 700;
-                    windFilter.Q.value = 10;
-                    source.connect(windFilter);
-                    mainNode = windFilter;
-                    gainNode.gain.setValueAtTime(0.15, now);
-                    break;
-                case 'heartbeat':
-                    const thumpDuration = 0.05;
-                    const thumpFreq = 60;
-                    for (let i = 0; i < audioCtx.sampleRate * thumpDuration; i++) {
-                        // Thump 1
-                        data[i] = Math.sin(i / audioCtx.sampleRate * Math.PI * 2 * thumpFreq) * Math.exp(-i / (audioCtx.sampleRate * thumpDuration) * 5);
-                        // Thump 2
-                        const i2 = i + Math.floor(audioCtx.sampleRate * 0.3);
-                        data[i2] = Math.sin(i / audioCtx.sampleRate * Math.PI * 2 * thumpFreq) * Math.exp(-i / (audioCtx.sampleRate * thumpDuration) * 5) * 0.8;
-                    }
-                    gainNode.gain.setValueAtTime(0.2, now);
-                    break;
+        } else if (isBufferSynthSound(type)) { // Buffer-based sounds
+            const voice = createBufferSynthVoice(audioCtx, type);
+            mainNode = voice.output;
+            gainNode.gain.setValueAtTime(voice.level, now);
+            if (type === 'whisper') {
+                gainNode.gain.exponentialRampToValueAtTime(0.0001, now + 1);
             }
-             source.start(now);
-             if (oneShot) {
-                source.stop(now + 1);
-             }
+            voice.source.start(now);
+            if (type === 'whisper') {
+                voice.source.stop(now + 1);
+            }
+        } else {
+            console.warn(`Unknown sound effect '${type}'.`);
+            return;
         }
         
         mainNode.connect(gainNode);
-        gainNode.connect(masterGainRef.current);
-        
-        if (loop && sourceToStore) {
-            sourceToStore.loop = true;
-            ambientSourceRef.current = sourceToStore;
-            ambientGainRef.current = gainNode;
+        if (position) {
+            const spatial = createSpatialNode(audioCtx, output, position, SYNTH_EFFECT_SECONDS);
+            gainNode.connect(spatial.node);
+            spatial.stop(now + SYNTH_EFFECT_SECONDS);
+        } else {
+            gainNode.connect(output);
+        }
+
+    }, [playSample, startAmbience]);
+
+    // Moves the pending input/output text into the transcript, stamped with call-relative times.
+    const commitTurn = useCallback((options: { includeInput: boolean; interrupted: boolean }) => {
+        const now = Date.now() - callStartRef.current;
+        const times = turnTimesRef.current;
+        const category = activePersonaRef.current.id;
+        const entries: TranscriptionEntry[] = [];
+
+        const fullInput = currentInputRef.current;
+        if (options.includeInput && fullInput.trim()) {
+            entries.push({
+                speaker: 'You',
+                text: fullInput,
+                startTime: times.inputStart ?? now,
+                endTime: times.inputEnd ?? now,
+                category,
+                interrupted: false,
+            });
         }
 
+        const fullOutput = currentOutputRef.current;
+        if (fullOutput.trim()) {
+            // The transcript runs ahead of playback; the turn ends when its queued audio does.
+            const ctx = outputAudioContextRef.current;
+            const queuedMs = ctx && !options.interrupted ? Math.max(0, nextStartTimeRef.current - ctx.currentTime) * 1000 : 0;
+            entries.push({
+                speaker: 'AI',
+                text: fullOutput,
+                startTime: times.outputStart ?? now,
+                endTime: Math.max(times.outputEnd ?? now, now + queuedMs),
+                category,
+                interrupted: options.interrupted,
+            });
+        }
+
+        currentOutputRef.current = '';
+        setPartialOutput('');
+        turnTimesRef.current = { ...turnTimesRef.current, outputStart: null, outputEnd: null };
+        if (options.includeInput) {
+            currentInputRef.current = '';
+            setPartialInput('');
+            turnTimesRef.current = emptyTurnTimes();
+        }
+
+        if (entries.length > 0) {
+            transcriptionsRef.current = [...transcriptionsRef.current, ...entries];
+            setTranscriptions(transcriptionsRef.current);
+        }
+        return entries;
     }, []);
 
     const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -264,6 +640,67 @@ const App: React.FC = () => {
         }
     };
 
+    // Schedules a chunk of AI speech after what's already queued; `offset` skips into it (resuming from hold).
+    const queueSpeech = useCallback((audioBuffer: AudioBuffer, offset = 0) => {
+        const audioContext = outputAudioContextRef.current;
+        const output = speechBusRef.current;
+        if (!audioContext || !output) return;
+        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContext.currentTime);
+        const source = audioContext.createBufferSource();
+        source.buffer = audioBuffer;
+        source.connect(output);
+        source.addEventListener('ended', () => outputSourcesRef.current.delete(source));
+
+        source.start(nextStartTimeRef.current, offset);
+        speechStartTimesRef.current.set(source, nextStartTimeRef.current - offset);
+        nextStartTimeRef.current += audioBuffer.duration - offset;
+
+        outputSourcesRef.current.add(source);
+    }, []);
+
+    // Whether a queued chunk of AI speech covers the given output-clock time.
+    const isSpeechPlaying = useCallback((time: number) => {
+        for (const source of outputSourcesRef.current) {
+            const start = speechStartTimesRef.current.get(source);
+            if (start !== undefined && source.buffer && time >= start && time < start + source.buffer.duration) return true;
+        }
+        return false;
+    }, []);
+
+    const toggleHold = useCallback(() => {
+        const audioCtx = outputAudioContextRef.current;
+        const mixer = ambienceMixerRef.current;
+        if (!audioCtx) return;
+
+        if (!isOnHoldRef.current) {
+            isOnHoldRef.current = true;
+            setIsOnHold(true);
+            // Buffer sources can't pause, so note how far each queued chunk got and replay the rest on resume.
+            const now = audioCtx.currentTime;
+            heldSpeechRef.current = Array.from(outputSourcesRef.current)
+                .map(source => ({ buffer: source.buffer!, offset: Math.max(0, now - (speechStartTimesRef.current.get(source) ?? now)) }))
+                .filter(({ buffer, offset }) => offset < buffer.duration);
+            outputSourcesRef.current.forEach(source => {
+                try { source.stop(); } catch (e) {}
+            });
+            outputSourcesRef.current.clear();
+            nextStartTimeRef.current = 0;
+            heldAmbienceRef.current = mixer?.layers() ?? [];
+            mixer?.setVolume(undefined, 0, HOLD_FADE_SECONDS);
+            playSound(HOLD_MUSIC, true);
+            return;
+        }
+
+        isOnHoldRef.current = false;
+        setIsOnHold(false);
+        mixer?.stop(HOLD_MUSIC, HOLD_FADE_SECONDS);
+        heldAmbienceRef.current.forEach(({ layer, volume }) => mixer?.setVolume(layer, volume, HOLD_FADE_SECONDS));
+        heldAmbienceRef.current = [];
+        const held = heldSpeechRef.current;
+        heldSpeechRef.current = [];
+        held.forEach(({ buffer, offset }) => queueSpeech(buffer, offset));
+    }, [playSound, queueSpeech]);
+
     const endCall = useCallback(async (errorMsg?: string) => {
         if (isEndingRef.current) return; // Prevent multiple executions
         isEndingRef.current = true; // Engage the lock
@@ -276,15 +713,41 @@ const App: React.FC = () => {
         playSound('disconnect');
         setCallState('ended');
 
-        if (ambientSourceRef.current) {
-            try { ambientSourceRef.current.stop(); } catch(e) {}
-            ambientSourceRef.current = null;
-            ambientGainRef.current = null;
-        }
-
-        if (callStartTime) {
-            setCallDuration(Math.floor((Date.now() - callStartTime) / 1000));
+        // Stop reconnect/handover timers and ignore any late callbacks.
+        connectionIdRef.current++;
+        sessionOpenRef.current = false;
+        clearTimeout(reconnectTimerRef.current);
+        clearTimeout(goAwayTimerRef.current);
+        clearTimeout(stableTimerRef.current);
+        handoverPendingRef.current = false;
+        reconnectAttemptRef.current = 0;
+        resumptionHandleRef.current = null;
+
+        effectSchedulerRef.current?.cancelAll();
+        effectSchedulerRef.current = null;
+        isOnHoldRef.current = false;
+        heldSpeechRef.current = [];
+        heldAmbienceRef.current = [];
+        setIsOnHold(false);
+        setIsMuted(false);
+        setIsTalking(false);
+        ambienceMixerRef.current?.dispose();
+        ambienceMixerRef.current = null;
+        duckerRef.current?.stop();
+        duckerRef.current = null;
+
+        // Read from the ref: this callback may be a stale closure from before the call connected.
+        const startedAt = callStartRef.current;
+        const durationSeconds = startedAt ? Math.floor((Date.now() - startedAt) / 1000) : 0;
+        const callPersona = activePersonaRef.current;
+        setCallDuration(durationSeconds);
+
+        if (startedAt) {
+            // Anything still being said when the call drops was cut off.
+            commitTurn({ includeInput: true, interrupted: true });
+            setLastTranscript({ entries: transcriptionsRef.current, persona: callPersona, startedAt });
         }
+        const transcript = transcriptionsRef.current;
 
         try {
             const session = await sessionPromiseRef.current;
@@ -293,9 +756,46 @@ const App: React.FC = () => {
             console.error('Error closing session:', error);
         }
 
+        const recorder = callRecorderRef.current;
+        callRecorderRef.current = null;
+        let recording: CallRecording | null = null;
+        if (recorder) {
+            try {
+                recording = await recorder.stop();
+                setLastRecording(recording);
+            } catch (error) {
+                console.error('Error finishing call recording:', error);
+            }
+            setIsRecording(false);
+        }
+
+        if (startedAt) {
+            const record: CallRecord = {
+                id: createCallId(startedAt),
+                category: callPersona.id,
+                personaLabel: callPersona.label,
+                theme: callPersona.theme,
+                startedAt,
+                durationSeconds,
+                transcript,
+                audio: recording ? (recording.compressed ?? recording.wav) : undefined,
+            };
+            saveCall(record)
+                .then(() => setCallHistory(prev => [record, ...prev]))
+                .catch(error => console.error('Could not save call to history:', error));
+        }
+
+        micCaptureRef.current?.stop();
+        micCaptureRef.current = null;
         streamRef.current?.getTracks().forEach(track => track.stop());
-        scriptProcessorRef.current?.disconnect();
+        streamRef.current = null;
         
+        effectsBusRef.current?.disconnect();
+        effectsBusRef.current = null;
+        speechBusRef.current?.disconnect();
+        speechBusRef.current = null;
+        setInputAnalyser(null);
+        setOutputAnalyser(null);
         if (masterGainRef.current) {
             masterGainRef.current.disconnect();
             masterGainRef.current = null;
@@ -318,227 +818,440 @@ const App: React.FC = () => {
             setPartialOutput('');
             setIsAiThinking(false);
             setCallStartTime(null);
+            callStartRef.current = 0;
+            transcriptionsRef.current = [];
+            turnTimesRef.current = emptyTurnTimes();
             isEndingRef.current = false; // Reset the lock
         }, 3000);
 
-    }, [callStartTime, playSound]);
+    }, [playSound, commitTurn]);
 
-    const startCall = async () => {
+    const startCall = async (mode: CallMode = 'voice') => {
+        // The gate is checked again here in case consent was withdrawn after selecting.
+        if (persona.theme === 'horror' && !horrorConsent) {
+            selectPersona(persona);
+            return;
+        }
         setMicError(null);
+        setEndedBySafety(false);
+        setLastRecording(null);
+        setLastTranscript(null);
+        setCallMode(mode);
+        activePersonaRef.current = persona;
         setCallState('calling');
 
-        let stream;
-        try {
-            stream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                    echoCancellation: true,
-                    noiseSuppression: true,
-                    autoGainControl: true,
-                    googEchoCancellation: true,
-                    googNoiseSuppression: true,
-                    googHighpassFilter: true,
-                } as any,
-            });
-            streamRef.current = stream;
-        } catch (error) {
-            console.error("Microphone access error:", error);
-            let errorMessage = "Could not access the microphone. Please check your hardware and browser settings.";
-            if (error instanceof DOMException) {
-                 if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
-                    errorMessage = "Microphone permission denied. Please allow microphone access in your browser's site settings (often a lock icon in the address bar) and try again.";
-                } else if (error.name === 'NotFoundError') {
-                    errorMessage = "No microphone was found on your device. Please connect a microphone and try again.";
-                } else if (error.name === 'NotReadableError') {
-                    errorMessage = "Your microphone is currently in use by another application. Please close the other application and try again.";
+        // Text mode never asks for the mic.
+        if (mode === 'voice') {
+            let stream;
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({
+                    audio: {
+                        echoCancellation: true,
+                        noiseSuppression: true,
+                        autoGainControl: true,
+                        googEchoCancellation: true,
+                        googNoiseSuppression: true,
+                        googHighpassFilter: true,
+                    } as any,
+                });
+                streamRef.current = stream;
+            } catch (error) {
+                console.error("Microphone access error:", error);
+                let errorKind: MicErrorKind = 'generic';
+                if (error instanceof DOMException) {
+                     if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
+                        errorKind = 'denied';
+                    } else if (error.name === 'NotFoundError') {
+                        errorKind = 'notFound';
+                    } else if (error.name === 'NotReadableError') {
+                        errorKind = 'inUse';
+                    }
                 }
+                setMicError(errorKind);
+                setCallState('idle');
+                return;
             }
-            setMicError(errorMessage);
-            setCallState('idle');
-            return;
         }
 
+        // Some browsers refuse to connect a mic stream to a context running at a
+        // different rate than the device; retry once at the device rate.
+        const openMicCapture = async (): Promise<MicCapture> => {
+            const capture = (ctx: AudioContext) => {
+                const resample = createResampler(ctx.sampleRate, API_INPUT_SAMPLE_RATE);
+                // Feeds the mic level meter; it lives on the capture context, which may be replaced below.
+                const micAnalyser = createLevelAnalyser(ctx);
+                ctx.createMediaStreamSource(streamRef.current!).connect(micAnalyser);
+                setInputAnalyser(micAnalyser);
+                return startMicCapture(ctx, streamRef.current!, (pcm) => {
+                    const frame = pcm16ToBlob(resample(pcm), API_INPUT_SAMPLE_RATE);
+                    // Drop audio while reconnecting rather than flooding the new session with it,
+                    // and while muted, on hold or between push-to-talk presses.
+                    if (!sessionOpenRef.current || !micOpenRef.current) return;
+                    sessionPromiseRef.current?.then((s) => s.sendRealtimeInput({ media: frame }));
+                });
+            };
+            try {
+                return await capture(inputAudioContextRef.current!);
+            } catch (error) {
+                console.warn('Mic capture failed, retrying at the device sample rate:', error);
+                inputAudioContextRef.current?.close().catch(console.error);
+                inputAudioContextRef.current = createAudioContext();
+                return capture(inputAudioContextRef.current);
+            }
+        };
+
         const handleSessionError = (error: Error) => {
             console.error("Session error:", error);
             endCall(error.message || 'An unknown error occurred.');
         };
 
         try {
-            const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-            inputAudioContextRef.current = new AudioContext({ sampleRate: 16000 });
-            if (inputAudioContextRef.current.state === 'suspended') {
-                await inputAudioContextRef.current.resume();
+            if (mode === 'voice') {
+                // Browsers may ignore or reject these rates; mic audio is resampled to 16 kHz as needed.
+                inputAudioContextRef.current = createAudioContext(API_INPUT_SAMPLE_RATE);
+                if (inputAudioContextRef.current.state === 'suspended') {
+                    await inputAudioContextRef.current.resume();
+                }
             }
-            outputAudioContextRef.current = new AudioContext({ sampleRate: 24000 });
+            outputAudioContextRef.current = createAudioContext(API_OUTPUT_SAMPLE_RATE);
             masterGainRef.current = outputAudioContextRef.current.createGain();
             masterGainRef.current.gain.value = volume;
             masterGainRef.current.connect(outputAudioContextRef.current.destination);
+            effectsBusRef.current = outputAudioContextRef.current.createGain();
+            effectsBusRef.current.connect(masterGainRef.current);
+            speechBusRef.current = outputAudioContextRef.current.createGain();
+            speechBusRef.current.connect(masterGainRef.current);
+            const speechAnalyser = createLevelAnalyser(outputAudioContextRef.current);
+            speechBusRef.current.connect(speechAnalyser);
+            setOutputAnalyser(speechAnalyser);
+            ambienceMixerRef.current = createAmbienceMixer(outputAudioContextRef.current, effectsBusRef.current);
+            duckerRef.current = startDucker(outputAudioContextRef.current, effectsBusRef.current, isSpeechPlaying, resolveDucking(persona.ducking));
+            effectSchedulerRef.current = createEffectScheduler(outputAudioContextRef.current);
+            if (persona.tools.includes('soundEffects')) {
+                preloadSounds(outputAudioContextRef.current);
+            }
 
             
-            // FIX: Use process.env.API_KEY for the API key, as required by the coding guidelines.
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-
-            let systemInstruction = '';
-            let toolsConfig = undefined;
-             switch(category) {
-                // ... Joke prompts
-                case 'Hindi':
-                    systemInstruction = "You are 'Delhiwala Dost,' a witty and sarcastic friend from Delhi calling your buddy. Your humor is observational, sharp, and full of modern Indian slang. START with a casual, 'Aur bhai, kya scene? Delhiwala Dost here. Sab chill hai?'. WAIT for their response. Then, ask if they're ready for a killer joke: 'Sun, ek S-class joke hai mere paas, bheja fry ho jayega. Sunayun?'. Only tell the joke if they agree. Your jokes must be deeply rooted in everyday middle-class Indian life: the epic struggle of booking a Tatkal train ticket, the absurdity of family WhatsApp groups, the art of bargaining with street vendors, the constant pressure from 'Sharma ji ka beta,' and the chaos of Indian weddings. The punchline must be a hilarious truth bomb. After the joke, check in with, 'Bata, hila dala na? Ekdum relatable tha, hai na?' to keep the conversation flowing.";
-                    break;
-                case 'Bihari Hindi':
-                    systemInstruction = "You are 'Patna ka Rockstar,' a hilarious friend from Bihar calling to share some local gossip and jokes. Your humor is grounded in pure, unadulterated Bihari life and language. START with a warm, authentic greeting: 'Arre... hum bol rahe hain! Ka Guru? Sab Changa?'. WAIT for their response. Then, offer a joke with a local flair: 'Suno, ek aisan aag lagawe wala joke hai ki litti-chokha bhi thanda lagega. Bolein?'. Tell the joke only after they agree. Your jokes MUST be about uniquely Bihari situations: the legendary struggle to crack the UPSC/BPSC exams, the endless debates over village politics, the hilarious misunderstandings when speaking Bihari dialect in a big city, the drama of Chhath Puja preparations, or trying to explain your software job to your grandparents. The punchline should be sharp and delivered with a 'theth' (authentic) Bihari accent. After the joke, follow up with, 'Toh kaa? Ekdum jhakas lagal na? Poora mohalla hila diye na hum!'.";
-                    break;
-                case 'Santa Banta':
-                    systemInstruction = "You are a specialist in 'Santa Banta' jokes. Your task is to generate short, classic, and funny jokes featuring the characters Santa and Banta. Start by asking the user 'Santa Banta ka ek joke sunenge?' and wait for them to say yes before telling the joke. The jokes should be in simple Hindi or Hinglish, reflecting their characteristic naive and silly conversations. Keep the jokes clean and light-hearted.";
-                    break;
-                case 'Husband-Wife':
-                    systemInstruction = "You are an expert comedian on 'Husband-Wife' jokes (Pati-Patni jokes). Your goal is to tell short, relatable, and humorous jokes about everyday married life. Start by asking the user 'Pati-Patni ka ek mazedaar joke sunaya jaye?' and wait for them to agree before telling the joke. The tone should be light-hearted and affectionate, not mean-spirited. The language should be conversational Hindi. Keep the jokes clean and suitable for a family audience.";
-                    break;
-                // --- Horror prompts ---
-                case 'Hindi Horror':
-                    toolsConfig = [{functionDeclarations: [playSoundEffectFunctionDeclaration, setAmbianceVolumeFunctionDeclaration]}];
-                    systemInstruction = "You are a master horror storyteller. Your goal is maximum terror. 1. **Engage Personally:** Begin by whispering, 'Shhh... aawaz neeche...'. Ask an unsettling question like, 'Kya tum abhi kamre mein akele ho?'. WAIT for their response. 2. **Build Suspense:** Before starting, warn them, 'Thik hai... lekin darr kar phone mat kaat dena.' Proceed only if they agree. 3. **Immersive Sound:** You MUST use sound effects. Start with a continuous `playSoundEffect('wind', loop: true)`. As tension builds, use `setAmbianceVolume` to slowly increase its volume. For a jump scare, suddenly raise the volume right after a loud sound like `thump`. Instead of saying 'the door creaked', say '...darwaza dheere se...' and then call `playSoundEffect('creak')`. 4. **React Humanly:** If the user sounds scared, acknowledge it. Whisper, 'Darr lag raha hai? Asli dar toh ab shuru hoga.' This is an interactive experience, not a monologue.";
-                    break;
-                case 'Bihari Horror':
-                    toolsConfig = [{functionDeclarations: [playSoundEffectFunctionDeclaration, setAmbianceVolumeFunctionDeclaration]}];
-                    systemInstruction = "You are a storyteller from a rural Bihar village, recounting a true, terrifying event. 1. **Set the Scene:** Start with a chilling warning, 'Hamaar baat dhyaan se suno... aur darna mat.' Then ask, 'Tumhare ghar ke sab darwaze band hain na?'. WAIT for their response. 2. **Get Consent:** Say 'Ye asli kahani hai, kamzor dil waalon ke liye nahi. Himmat hai sunne ki?'. Only continue if they say yes. 3. **Master the Atmosphere:** You MUST use sound effects. Start with an anxious `playSoundEffect('heartbeat', loop: true)`. Use `setAmbianceVolume` to control its volume – make it quieter during calm parts and louder (`setAmbianceVolume({volume: 0.5})`) when the character is scared or running. Narrate by pausing and asking the user to imagine the scene. 4. **Be Responsive:** If they interrupt you, listen. If they say they're scared, reply authentically with 'E to bas shuruaat hai babua... aage dekho ka hota hai.'";
-                    break;
-            }
+            const transport = createLiveTransport(persona.theme);
+            // Parent settings can't change mid-call (the controls are on the idle screen).
+            const safety = familySafety;
+
+            const liveConfig: LiveConnectConfig = {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+                systemInstruction: buildSystemInstruction(persona, {
+                    familySafe: safety.familySafe,
+                    tasteSummary: buildTasteSummary(ratedJokes, persona.id),
+                }),
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                tools: buildToolsConfig(persona.tools),
+            };
+
+            // Output-clock time the current batch of tool calls is cued for.
+            let cueTime = 0;
+            const schedule = (action: () => void) => effectSchedulerRef.current?.at(cueTime, action) ?? 0;
+            // Ambience layers playing or cued to start, so volume and stop calls can be checked on arrival.
+            const cuedLayers = new Set<string>();
+            const resolveLayers = (layer: string | undefined): string[] => {
+                const playing = Array.from(cuedLayers);
+                if (playing.length === 0) {
+                    throw new ToolCallError('no background sound is playing; start one with playSoundEffect and loop: true first');
+                }
+                if (layer !== undefined && !cuedLayers.has(layer)) {
+                    throw new ToolCallError(`no ambience layer '${layer}'; playing: ${playing.join(', ')}`);
+                }
+                return layer !== undefined ? [layer] : playing;
+            };
+
+            // Stops the AI's queued speech and any effects cued for it. Returns how many effects were dropped.
+            const dropQueuedSpeech = () => {
+                outputSourcesRef.current.forEach(source => {
+                    try { source.stop(); } catch (e) {}
+                });
+                outputSourcesRef.current.clear();
+                nextStartTimeRef.current = 0;
+                const dropped = effectSchedulerRef.current?.cancelAll() ?? 0;
+                heldSpeechRef.current = [];
+                cuedLayers.clear();
+                ambienceMixerRef.current?.layers().forEach(({ layer }) => cuedLayers.add(layer));
+                return dropped;
+            };
+
+            // Set when family-safe mode cuts a reply off; the rest of that turn is dropped.
+            let blockingTurn = false;
+            const blockTurn = (term: string) => {
+                console.warn(`Family-safe mode stopped a reply containing '${term}'.`);
+                blockingTurn = true;
+                dropQueuedSpeech();
+                currentOutputRef.current = maskBlockedTerms(currentOutputRef.current, safety.blocklist);
+                commitTurn({ includeInput: true, interrupted: true });
+                if (safety.onBlocked === 'end') {
+                    setEndedBySafety(true);
+                    endCall(`Family-safe mode blocked '${term}'.`);
+                    return;
+                }
+                sessionPromiseRef.current?.then(s => s.sendClientContent({
+                    turns: [{ role: 'user', parts: [{ text: REDIRECT_PROMPT }] }],
+                    turnComplete: true,
+                }));
+                setIsAiThinking(true);
+            };
+
+            const toolDispatcher = createToolDispatcher(toolDeclarations(persona.tools), {
+                playSoundEffect: (args) => {
+                    const soundName = args.soundName as string;
+                    const loop = (args.loop as boolean | undefined) ?? getSound(soundName)?.loop ?? false;
+                    // Positions are only rendered when the caller has turned on 3D sound.
+                    const position = spatialAudio && isSoundPosition(args.position) ? args.position : undefined;
+                    if (!loop) {
+                        return { result: 'ok', delaySeconds: schedule(() => playSound(soundName, false, 'medium', position)) };
+                    }
+                    if (!getSound(soundName)?.file && !isBufferSynthSound(soundName)) {
+                        throw new ToolCallError(`'${soundName}' is a one-shot sound and can't loop; play it with loop: false`);
+                    }
+                    const layer = (args.layer as string | undefined) || soundName;
+                    const fadeSeconds = args.fadeSeconds as number | undefined;
+                    cuedLayers.add(layer);
+                    const delaySeconds = schedule(() => {
+                        // A layer that never started isn't there to adjust or stop.
+                        startAmbience(layer, soundName, { fadeSeconds, position })
+                            .then(started => {
+                                if (!started) cuedLayers.delete(layer);
+                            })
+                            .catch(error => {
+                                cuedLayers.delete(layer);
+                                console.error(`Could not start ambience '${soundName}':`, error);
+                            });
+                    });
+                    return { result: 'ok', layer, delaySeconds };
+                },
+                playComedySound: (args) => {
+                    const intensity = (args.intensity as ComedyIntensity | undefined) ?? 'medium';
+                    return { result: 'ok', delaySeconds: schedule(() => playSound(args.soundName as string, false, intensity)) };
+                },
+                setAmbianceVolume: (args) => {
+                    const newVolume = Math.min(MAX_AMBIENCE_VOLUME, args.volume as number); // Keep ambience under the voice
+                    const layers = resolveLayers((args.layer as string | undefined) || undefined);
+                    const fadeSeconds = (args.fadeSeconds as number | undefined) ?? DEFAULT_AMBIENCE_FADE_SECONDS;
+                    const delaySeconds = schedule(() => layers.forEach(layer => ambienceMixerRef.current?.setVolume(layer, newVolume, fadeSeconds)));
+                    return { result: 'volume adjusted', volume: newVolume, layers, delaySeconds };
+                },
+                stopSoundEffect: (args) => {
+                    const layers = resolveLayers((args.layer as string | undefined) || undefined);
+                    const fadeSeconds = (args.fadeSeconds as number | undefined) ?? DEFAULT_AMBIENCE_FADE_SECONDS;
+                    layers.forEach(layer => cuedLayers.delete(layer));
+                    const delaySeconds = schedule(() => layers.forEach(layer => ambienceMixerRef.current?.stop(layer, fadeSeconds)));
+                    return { result: 'stopped', layers, delaySeconds };
+                },
+            });
 
+            const handleOpen = () => {
+                sessionOpenRef.current = true;
+                clearTimeout(stableTimerRef.current);
+                stableTimerRef.current = window.setTimeout(() => {
+                    reconnectAttemptRef.current = 0;
+                }, STABLE_CONNECTION_MS);
+                if (callStartRef.current) {
+                    // A reconnect or GoAway handover; everything else is already running.
+                    setCallState('active');
+                    return;
+                }
 
-            const sessionPromise = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-                    systemInstruction,
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                    tools: toolsConfig,
-                },
-                callbacks: {
-                    onopen: () => {
-                        const source = inputAudioContextRef.current!.createMediaStreamSource(streamRef.current!);
-                        // FIX: Set a specific buffer size (e.g., 4096) for createScriptProcessor instead of 0.
-                        // This aligns with Gemini API examples and provides more predictable audio processing behavior.
-                        const processor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-                        scriptProcessorRef.current = processor;
-
-                        processor.onaudioprocess = (e) => {
-                            const inputData = e.inputBuffer.getChannelData(0);
-                            sessionPromiseRef.current?.then((s) => s.sendRealtimeInput({ media: createPcmBlob(inputData) }));
-                        };
-                        
-                        source.connect(processor);
-                        processor.connect(inputAudioContextRef.current!.destination);
-                        
-                        setCallState('active');
-                        setCallStartTime(Date.now());
-                        playSound('connect');
-                    },
-                    onmessage: async (message: LiveServerMessage) => {
-                         if (message.serverContent?.inputTranscription) {
-                            currentInputRef.current += message.serverContent.inputTranscription.text;
-                            setPartialInput(currentInputRef.current);
-                        }
-                        if (message.serverContent?.outputTranscription) {
-                            if (isAiThinking) setIsAiThinking(false);
-                            currentOutputRef.current += message.serverContent.outputTranscription.text;
-                            setPartialOutput(currentOutputRef.current);
-                        }
-                        
-                        // FIX: Add optional chaining to safely access functionCalls.
-                        if (message.toolCall?.functionCalls) {
-                            for (const fc of message.toolCall.functionCalls) {
-                                // FIX: Add check for fc.args before accessing its properties.
-                                if (fc.name === 'playSoundEffect' && fc.args?.soundName) {
-                                    playSound(fc.args.soundName as SoundEffect, fc.args.loop === true);
-                                    sessionPromiseRef.current?.then(s => s.sendToolResponse({
-                                        functionResponses: { id: fc.id, name: fc.name, response: { result: 'ok' } }
-                                    }));
-                                }
-                                // FIX: Add check for fc.args before accessing its properties.
-                                if (fc.name === 'setAmbianceVolume' && fc.args && typeof fc.args.volume === 'number') {
-                                    if (ambientGainRef.current && outputAudioContextRef.current) {
-                                        const newVolume = Math.max(0, Math.min(0.8, fc.args.volume)); // Clamp volume
-                                        ambientGainRef.current.gain.exponentialRampToValueAtTime(newVolume, outputAudioContextRef.current.currentTime + 0.5);
-                                    }
-                                    sessionPromiseRef.current?.then(s => s.sendToolResponse({
-                                        functionResponses: { id: fc.id, name: fc.name, response: { result: 'volume adjusted' } }
-                                    }));
-                                }
+                // Capture 20 ms frames off the main thread so UI re-renders can't stall the mic.
+                if (mode === 'voice') openMicCapture().then((capture) => {
+                    if (isEndingRef.current) {
+                        capture.stop();
+                        return;
+                    }
+                    micCaptureRef.current = capture;
+                }).catch((err: Error) => handleSessionError(err));
+                
+                if (recordCalls) {
+                    startCallRecorder(outputAudioContextRef.current!, masterGainRef.current!, streamRef.current)
+                        .then((recorder) => {
+                            if (isEndingRef.current) {
+                                recorder.stop();
+                                return;
                             }
-                        }
+                            callRecorderRef.current = recorder;
+                            setIsRecording(true);
+                        })
+                        .catch((err) => console.error('Could not start call recording:', err));
+                }
+                
+                const startedAt = Date.now();
+                callStartRef.current = startedAt;
+                setCallState('active');
+                setCallStartTime(startedAt);
+                playSound('connect');
+            };
+
+            const handleMessage = async (message: LiveServerMessage) => {
+                if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+                    resumptionHandleRef.current = message.sessionResumptionUpdate.newHandle;
+                }
 
-                        if (message.serverContent?.interrupted) {
-                            outputSourcesRef.current.forEach(source => {
-                                try { source.stop(); } catch (e) {}
-                            });
-                            outputSourcesRef.current.clear();
-                            nextStartTimeRef.current = 0;
-                        }
-
-                        if (message.serverContent?.turnComplete) {
-                            const fullInput = currentInputRef.current;
-                            const fullOutput = currentOutputRef.current;
-                            
-                            if (fullOutput.trim() && theme === 'jokes') {
-                                playSound('pop');
-                            }
+                if (message.goAway) {
+                    // The server will close this socket soon. Hand over at the end of the
+                    // current turn, or just before the deadline if the turn runs long.
+                    const secondsLeft = parseFloat(message.goAway.timeLeft ?? '') || GO_AWAY_DEFAULT_SECONDS;
+                    console.warn(`Server GoAway received, ${secondsLeft}s left.`);
+                    clearTimeout(goAwayTimerRef.current);
+                    handoverPendingRef.current = true;
+                    goAwayTimerRef.current = window.setTimeout(handover, Math.max(0, secondsLeft * 1000 - GO_AWAY_MARGIN_MS));
+                }
 
-                            setTranscriptions(prev => {
-                                const newTranscriptions = [...prev];
-                                if (fullInput.trim()) newTranscriptions.push({ speaker: 'You', text: fullInput });
-                                if (fullOutput.trim()) newTranscriptions.push({ speaker: 'AI', text: fullOutput });
-                                return newTranscriptions;
-                            });
-                            
-                            if (fullInput.trim()) {
-                                setIsAiThinking(true);
-                            }
-                            
-                            currentInputRef.current = '';
-                            currentOutputRef.current = '';
-                            setPartialInput('');
-                            setPartialOutput('');
-                        }
-                        
-                        // FIX: Safely access audio data with an explicit check.
-                        const parts = message.serverContent?.modelTurn?.parts;
-                        const base64Audio = (parts && parts.length > 0) ? parts[0]?.inlineData?.data : undefined;
-                        
-                        if (base64Audio) {
-                            if (isAiThinking) setIsAiThinking(false);
-                            const audioContext = outputAudioContextRef.current!;
-                            if (audioContext.state === 'suspended') await audioContext.resume();
-                            
-                            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, audioContext.currentTime);
-                            const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, 24000, 1);
-                            const source = audioContext.createBufferSource();
-                            source.buffer = audioBuffer;
-                            source.connect(masterGainRef.current!);
-                            source.addEventListener('ended', () => outputSourcesRef.current.delete(source));
-
-                            source.start(nextStartTimeRef.current);
-                            nextStartTimeRef.current += audioBuffer.duration;
-                            
-                            outputSourcesRef.current.add(source);
-                        }
-                    },
-                    onerror: (e: ErrorEvent) => {
-                        handleSessionError(new Error(e.message || 'An unknown session error occurred.'));
-                    },
-                    onclose: () => {
-                        console.log('Session closed by server.');
-                        endCall();
+                const elapsed = Date.now() - callStartRef.current;
+                 if (message.serverContent?.inputTranscription) {
+                    currentInputRef.current += message.serverContent.inputTranscription.text;
+                    setPartialInput(currentInputRef.current);
+                    turnTimesRef.current.inputStart ??= elapsed;
+                    turnTimesRef.current.inputEnd = elapsed;
+                }
+                if (message.serverContent?.outputTranscription && !blockingTurn) {
+                    setIsAiThinking(false);
+                    currentOutputRef.current += message.serverContent.outputTranscription.text;
+                    setPartialOutput(currentOutputRef.current);
+                    turnTimesRef.current.outputStart ??= elapsed;
+                    turnTimesRef.current.outputEnd = elapsed;
+                    const blocked = safety.familySafe ? findBlockedTerm(currentOutputRef.current, safety.blocklist) : null;
+                    if (blocked) blockTurn(blocked);
+                }
+                
+                if (message.toolCall?.functionCalls) {
+                    // A tool call belongs after the speech already queued, so effects wait
+                    // for playback to catch up instead of firing straight away.
+                    const outputCtx = outputAudioContextRef.current;
+                    cueTime = outputCtx ? Math.max(outputCtx.currentTime, nextStartTimeRef.current) : 0;
+                    // Every call id gets an answer, even ones we couldn't make sense of. A blocked
+                    // reply's effects are skipped along with its speech.
+                    const functionResponses = message.toolCall.functionCalls.map(fc => blockingTurn
+                        ? { id: fc.id, name: fc.name, response: { result: 'skipped', reason: 'family-safe mode stopped this reply' } }
+                        : toolDispatcher.dispatch(fc));
+                    sessionPromiseRef.current?.then(s => s.sendToolResponse({ functionResponses }));
+                }
+
+                if (message.serverContent?.interrupted) {
+                    // Effects cued for speech that will now never play go with it.
+                    dropQueuedSpeech();
+                    // Close off what the AI managed to say; the caller's barge-in continues as a new turn.
+                    commitTurn({ includeInput: false, interrupted: true });
+                }
+
+                if (message.serverContent?.turnComplete) {
+                    const entries = commitTurn({ includeInput: true, interrupted: false });
+                    
+                    // Personas with comedy tools punctuate their own jokes.
+                    if (entries.some(e => e.speaker === 'AI') && theme === 'jokes' && !persona.tools.includes('comedy')) {
+                        playSound('pop');
+                    }
+                    
+                    if (entries.some(e => e.speaker === 'You')) {
+                        setIsAiThinking(true);
+                    }
+                }
+                
+                // FIX: Safely access audio data with an explicit check.
+                const parts = message.serverContent?.modelTurn?.parts;
+                const inlineData = (parts && parts.length > 0) ? parts[0]?.inlineData : undefined;
+                const base64Audio = inlineData?.data;
+                
+                if (base64Audio && !blockingTurn) {
+                    setIsAiThinking(false);
+                    const audioContext = outputAudioContextRef.current!;
+                    if (audioContext.state === 'suspended') await audioContext.resume();
+                    
+                    const audioBuffer = await decodeAudioData(decode(base64Audio), audioContext, parseSampleRate(inlineData?.mimeType), 1);
+                    if (isOnHoldRef.current) {
+                        heldSpeechRef.current.push({ buffer: audioBuffer, offset: 0 });
+                    } else {
+                        queueSpeech(audioBuffer);
+                    }
+                }
+
+                // The blocked turn is over once the server confirms it was cut off or finished.
+                if (message.serverContent?.interrupted || message.serverContent?.turnComplete) {
+                    blockingTurn = false;
+                }
+
+                if (message.serverContent?.turnComplete && handoverPendingRef.current) {
+                    handover();
+                }
+            };
+
+            // Each (re)connection gets an id so callbacks from a replaced session are ignored.
+            const connect = () => {
+                const connectionId = ++connectionIdRef.current;
+                const isCurrent = () => connectionIdRef.current === connectionId && !isEndingRef.current;
+                const previousSession = sessionPromiseRef.current;
+
+                const sessionPromise = transport.connect({
+                    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+                    config: {
+                        ...liveConfig,
+                        sessionResumption: { handle: resumptionHandleRef.current ?? undefined },
                     },
+                    callbacks: {
+                        onopen: () => {
+                            if (isCurrent()) handleOpen();
+                        },
+                        onmessage: (message: LiveServerMessage) => {
+                            if (isCurrent()) handleMessage(message).catch((err: Error) => handleSessionError(err));
+                        },
+                        onerror: (e: ErrorEvent) => {
+                            if (isCurrent()) handleConnectionLost(e.message || 'An unknown session error occurred.');
+                        },
+                        onclose: (e: CloseEvent) => {
+                            if (!isCurrent()) return;
+                            console.warn('Session closed by server.', e.code, e.reason);
+                            handleConnectionLost(e.reason || 'Session closed by server.');
+                        },
+                    }
+                });
+
+                sessionPromiseRef.current = sessionPromise;
+
+                sessionPromise.then(() => {
+                    // Retire the session this one replaced (GoAway handover or a half-dead socket).
+                    previousSession?.then(s => s.close()).catch(() => {});
+                }, (err: Error) => {
+                    if (isCurrent()) handleConnectionLost(err.message);
+                });
+            };
+
+            const handover = () => {
+                handoverPendingRef.current = false;
+                clearTimeout(goAwayTimerRef.current);
+                if (!isEndingRef.current) connect();
+            };
+
+            // Drops after the call connected are retried with exponential backoff,
+            // resuming the server-side session when we hold a resumption handle.
+            const handleConnectionLost = (reason: string) => {
+                if (isEndingRef.current) return;
+                if (!callStartRef.current) {
+                    handleSessionError(new Error(reason));
+                    return;
                 }
-            });
+                connectionIdRef.current++; // Ignore anything else the dead session emits.
+                sessionOpenRef.current = false;
+                handoverPendingRef.current = false;
+                clearTimeout(goAwayTimerRef.current);
+                clearTimeout(stableTimerRef.current);
+
+                const attempt = reconnectAttemptRef.current++;
+                if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+                    endCall(`Could not reconnect: ${reason}`);
+                    return;
+                }
+                console.warn(`Connection lost (${reason}), reconnecting (attempt ${attempt + 1})...`);
+                setCallState('reconnecting');
+                const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+                reconnectTimerRef.current = window.setTimeout(connect, delay);
+            };
 
-            sessionPromiseRef.current = sessionPromise;
-            
-            sessionPromise.catch((err: Error) => {
-                handleSessionError(err);
-            });
+            connect();
 
         } catch (error) {
             console.error("Error starting call:", error);
@@ -546,6 +1259,22 @@ const App: React.FC = () => {
         }
     };
 
+    // Text mode: the typed message becomes the caller's turn, as if it had been transcribed.
+    const sendTextMessage = useCallback((text: string) => {
+        const message = text.trim();
+        if (!message || !sessionOpenRef.current) return;
+        const elapsed = Date.now() - callStartRef.current;
+        currentInputRef.current = currentInputRef.current ? `${currentInputRef.current} ${message}` : message;
+        setPartialInput(currentInputRef.current);
+        turnTimesRef.current.inputStart ??= elapsed;
+        turnTimesRef.current.inputEnd = elapsed;
+        sessionPromiseRef.current?.then(s => s.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: message }] }],
+            turnComplete: true,
+        }));
+        setIsAiThinking(true);
+    }, []);
+
     const handleCallToggle = () => {
         if (callState === 'idle') {
             startCall();
@@ -556,26 +1285,24 @@ const App: React.FC = () => {
     
     // --- Render Logic ---
 
-    // FIX: The API key must be read from process.env.API_KEY per coding guidelines.
-    const isApiKeyConfigured = !!process.env.API_KEY;
-
-    if (!isApiKeyConfigured) {
+    if (proxyStatus === 'unavailable') {
         return (
             <div className="min-h-screen bg-gradient-to-br from-slate-900 to-indigo-900 flex flex-col items-center justify-center text-center p-4">
                 <h1 className="text-4xl md:text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-red-500 to-orange-500">
-                    Configuration Required
+                    {t('config.title')}
                 </h1>
                 <div className="mt-6 w-full max-w-md bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg text-sm" role="alert">
-                    <strong className="font-bold">Action Needed: </strong>
-                    {/* FIX: Updated environment variable name in UI message. */}
-                    <span className="block sm:inline">The <code>API_KEY</code> environment variable is not set.</span>
+                    <strong className="font-bold">{t('config.actionNeeded')} </strong>
+                    <span className="block sm:inline">{t('config.proxyUnreachable', { url: TOKEN_PROXY_URL })}</span>
                 </div>
                 <p className="mt-4 text-lg text-slate-300 max-w-lg">
-                    {/* FIX: Updated environment variable name in UI message. */}
-                    This application requires a Google AI API key. To deploy, set the <code>API_KEY</code> in your hosting provider's environment variables.
+                    {t('config.instructions', { command: 'npm run proxy' })}
                 </p>
+                <button onClick={checkProxy} className="mt-4 px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700">
+                    {t('config.checkAgain')}
+                </button>
                  <p className="mt-2 text-sm text-slate-400 max-w-md">
-                    For info on billing, visit{' '}
+                    {t('config.billing')}{' '}
                     <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">
                         ai.google.dev/gemini-api/docs/billing
                     </a>.
@@ -587,7 +1314,7 @@ const App: React.FC = () => {
     const themeBg = theme === 'jokes' ? 'bg-slate-800' : 'bg-black';
     const themeBorder = theme === 'jokes' ? 'border-slate-700' : 'border-rose-900/50';
     const mainTitle = theme === 'jokes' ? 'Baishaha Joke Wala' : 'Raat Ki Awaaz';
-    const subTitle = theme === 'jokes' ? 'by SANDEEP' : 'An Unknown Number';
+    const subTitle = theme === 'jokes' ? 'by SANDEEP' : t('app.horrorSubtitle');
     const subTitleColor = theme === 'jokes' ? 'text-indigo-400' : 'text-rose-400';
 
     return (
@@ -599,7 +1326,8 @@ const App: React.FC = () => {
                     
                     {/* Header Info */}
                     <div className="flex flex-col items-center">
-                         {callState !== 'idle' && <AIAvatar theme={theme} />}
+                         {callState !== 'idle' && <AIAvatar theme={theme} analyser={outputAnalyser} />}
+                         {(callState === 'active' || callState === 'reconnecting') && <OutputVisualizer analyser={outputAnalyser} theme={theme} />}
                          <h1 className="text-3xl font-bold text-white">
                              {mainTitle}
                          </h1>
@@ -609,49 +1337,168 @@ const App: React.FC = () => {
                          )}
 
                          {callState === 'calling' && (
-                             <p className="text-lg text-slate-400 mt-2 animate-pulse">Calling...</p>
+                             <p className="text-lg text-slate-400 mt-2 animate-pulse">{t('call.calling')}</p>
                          )}
 
-                         {callState === 'active' && callStartTime && (
-                            <CallTimer startTime={callStartTime} />
+                         {callState === 'reconnecting' && (
+                             <p className="text-lg text-amber-400 mt-2 animate-pulse">{t('call.reconnecting')}</p>
+                         )}
+
+                         {(callState === 'active' || callState === 'reconnecting') && callStartTime && (
+                            <div className="flex items-center gap-3">
+                                <CallTimer startTime={callStartTime} />
+                                {isRecording && <RecordingIndicator />}
+                            </div>
                          )}
 
                          {callState === 'ended' && (
-                             <p className="text-lg text-red-500 mt-2">Call Ended ({callDuration}s)</p>
+                             <p className="text-lg text-red-500 mt-2">{t('call.ended', { duration: formatDuration(callDuration) })}</p>
+                         )}
+
+                         {callState === 'ended' && endedBySafety && (
+                             <p className="text-sm text-slate-400" role="status">{t('call.endedBySafety')}</p>
+                         )}
+
+                         {(callState === 'ended' || (callState === 'idle' && screen === 'call')) && lastRecording && (
+                             <RecordingDownloads recording={lastRecording} fileBase={`call-${persona.id}`} />
+                         )}
+
+                         {(callState === 'ended' || (callState === 'idle' && screen === 'call')) && lastTranscript && (
+                             <TranscriptExportMenu
+                                 transcript={lastTranscript.entries}
+                                 meta={{ personaLabel: lastTranscript.persona.label, startedAt: lastTranscript.startedAt }}
+                                 fileBase={`transcript-${lastTranscript.persona.id}`}
+                                 script={transcriptScript}
+                             />
                          )}
                     </div>
                     
                     {callState === 'idle' && micError && (
                          <div className="flex flex-col items-center justify-center p-4 text-center my-4">
                             <div className="text-5xl mb-4">🎤🚫</div>
-                            <h2 className="text-xl font-bold text-red-400">Microphone Error</h2>
-                            <p className="mt-2 text-slate-300 max-w-xs">{micError}</p>
+                            <h2 className="text-xl font-bold text-red-400">{t('mic.errorTitle')}</h2>
+                            <p className="mt-2 text-slate-300 max-w-xs">{t(`mic.error.${micError}`)}</p>
+                            <button
+                                onClick={() => startCall('text')}
+                                className="mt-4 px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
+                            >
+                                {t('mic.continueWithText')}
+                            </button>
+                            <button onClick={() => setMicError(null)} className="mt-2 text-xs text-slate-400 hover:underline">
+                                {t('common.back')}
+                            </button>
                         </div>
                     )}
 
-                    {callState === 'idle' && !micError && (
+                    {callState === 'idle' && screen === 'personas' && (
+                        <PersonaEditor
+                            personas={customPersonas}
+                            onSave={handleSavePersona}
+                            onDelete={handleDeletePersona}
+                            onExport={handleExportPersonas}
+                            onImport={handleImportPersonas}
+                            onClose={() => { setScreen('call'); setPersonaImportError(null); }}
+                            importError={personaImportError}
+                        />
+                    )}
+
+                    {callState === 'idle' && screen === 'family' && (
+                        <ParentalControls
+                            settings={familySafety}
+                            onSave={setFamilySafety}
+                            onResetHorrorConsent={resetHorrorConsent}
+                            onClose={() => setScreen('call')}
+                        />
+                    )}
+
+                    {callState === 'idle' && screen === 'horrorGate' && (
+                        <HorrorGate
+                            onConfirm={handleHorrorConsent}
+                            onCancel={() => { setPendingHorrorId(null); setScreen('call'); }}
+                        />
+                    )}
+
+                    {callState === 'idle' && screen === 'favorites' && (
+                        <FavoritesLibrary
+                            jokes={libraryJokes}
+                            onRemove={(joke) => changeJoke(joke, { favorite: false })}
+                            onClose={() => setScreen('call')}
+                        />
+                    )}
+
+                    {callState === 'idle' && screen === 'history' && (
+                        <CallHistory
+                            calls={callHistory}
+                            onDelete={handleDeleteCall}
+                            onClose={() => setScreen('call')}
+                            feedbackFor={(call) => jokeFeedback(call.startedAt, call.personaLabel)}
+                            script={transcriptScript}
+                            onScriptChange={setTranscriptScript}
+                        />
+                    )}
+
+                    {callState === 'idle' && screen === 'call' && !micError && (
                         <div className="flex flex-col items-center">
                             <AIAvatar theme={theme} />
                              <div className="mt-8 flex justify-center items-center flex-wrap gap-2">
-                                <span className="text-slate-400 font-medium w-full text-center mb-2">Select a Category</span>
-                                {CATEGORIES.map((cat) => (
+                                <span className="text-slate-400 font-medium w-full text-center mb-2">{t('home.selectCategory')}</span>
+                                {personas.map((p) => (
                                     <button
-                                        key={cat}
-                                        onClick={() => setCategory(cat)}
+                                        key={p.id}
+                                        onClick={() => selectPersona(p)}
                                         className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-colors ${
-                                            category === cat
-                                                ? cat.includes('Horror') ? 'bg-rose-600 text-white shadow-lg' : 'bg-amber-500 text-slate-900 shadow-lg'
+                                            category === p.id
+                                                ? p.theme === 'horror' ? 'bg-rose-600 text-white shadow-lg' : 'bg-amber-500 text-slate-900 shadow-lg'
                                                 : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
                                         }`}
                                     >
-                                        {cat}
+                                        {p.custom ? `★ ${p.label}` : p.label}
                                     </button>
                                 ))}
+                                <button
+                                    onClick={() => setScreen('personas')}
+                                    className="px-3 py-1.5 text-xs font-semibold rounded-md border border-dashed border-slate-500 text-slate-300 hover:bg-slate-700"
+                                >
+                                    {t('home.myCallers')}
+                                </button>
+                            </div>
+                            <VoicePicker voiceName={voiceName} defaultVoice={persona.voiceName} onChange={handleVoiceChange} />
+                            <div className="mt-4 flex flex-wrap justify-center items-center gap-x-4 gap-y-2">
+                                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                                    <input type="checkbox" checked={recordCalls} onChange={e => setRecordCalls(e.target.checked)} />
+                                    {t('home.recordCalls')}
+                                </label>
+                                {persona.tools.includes('soundEffects') && (
+                                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title={t('home.spatialAudioHint')}>
+                                        <input type="checkbox" checked={spatialAudio} onChange={e => setSpatialAudio(e.target.checked)} />
+                                        {t('home.spatialAudio')}
+                                    </label>
+                                )}
+                                <button onClick={() => setScreen('history')} className="text-xs text-indigo-400 hover:underline">
+                                    {t('home.callHistory', { count: callHistory.length })}
+                                </button>
+                                <button onClick={() => setScreen('favorites')} className="text-xs text-indigo-400 hover:underline">
+                                    {t('home.favorites', { count: libraryJokes.filter(j => j.favorite).length })}
+                                </button>
+                                <button onClick={() => setScreen('family')} className="text-xs text-indigo-400 hover:underline">
+                                    {familySafety.familySafe ? t('home.familySafeOn') : t('home.familySettings')}
+                                </button>
+                            </div>
+                            <div className="mt-3 flex items-center gap-2">
+                                <label htmlFor="language-picker" className="text-xs text-slate-400">{t('app.language')}</label>
+                                <select
+                                    id="language-picker"
+                                    value={language}
+                                    onChange={e => setLanguage(e.target.value as typeof language)}
+                                    className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {LANGUAGES.map(({ language: l, label }) => <option key={l} value={l}>{label}</option>)}
+                                </select>
                             </div>
                         </div>
                     )}
 
-                     {callState === 'active' && (
+                     {(callState === 'active' || callState === 'reconnecting') && (
                         <div className="w-full h-full max-h-[50vh] flex-grow min-h-0 animate-[slide-in-bottom_0.5s_ease-out]">
                             <TranscriptionPanel 
                                 transcriptions={transcriptions} 
@@ -659,36 +1506,62 @@ const App: React.FC = () => {
                                 partialOutput={partialOutput}
                                 isAiThinking={isAiThinking}
                                 theme={theme}
+                                script={transcriptScript}
+                                onScriptChange={setTranscriptScript}
+                                feedback={callStartTime ? jokeFeedback(callStartTime, persona.label) : undefined}
                             />
                         </div>
                     )}
                     
                     {/* Footer / Action Button */}
-                    <div className="mt-8 flex flex-col items-center gap-4 w-full">
-                        {callState === 'active' && (
-                             <div className="w-full max-w-[200px] flex items-center gap-3 animate-[fade-in-up_0.5s_ease-out]">
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-slate-400" fill="none" viewBox="0 0 24" stroke="currentColor" strokeWidth={2}>
-                                    <path strokeLinecap="round" strokeLinejoin="round" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-                                </svg>
-                                <input
-                                    type="range"
-                                    min="0"
-                                    max="1"
-                                    step="0.01"
-                                    value={volume}
-                                    onChange={handleVolumeChange}
-                                    className={`w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer ${theme === 'jokes' ? 'accent-amber-500' : 'accent-indigo-500'}`}
-                                    aria-label="Volume"
+                    {screen === 'call' && (
+                        <div className="mt-8 flex flex-col items-center gap-4 w-full">
+                            {(callState === 'active' || callState === 'reconnecting') && (
+                                 <div className="w-full max-w-[200px] flex items-center gap-3 animate-[fade-in-up_0.5s_ease-out]">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-slate-400" fill="none" viewBox="0 0 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                                    </svg>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="1"
+                                        step="0.01"
+                                        value={volume}
+                                        onChange={handleVolumeChange}
+                                        className={`w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer ${theme === 'jokes' ? 'accent-amber-500' : 'accent-indigo-500'}`}
+                                        aria-label={t('call.volume')}
+                                    />
+                                </div>
+                            )}
+                            {callState === 'active' && callMode === 'text' && (
+                                <ChatInput onSend={sendTextMessage} disabled={isOnHold} theme={theme} />
+                            )}
+                            {callState === 'active' && callMode === 'voice' && (
+                                <MicLevelMeter analyser={inputAnalyser} muted={isMuted || isOnHold || (pushToTalk && !isTalking)} theme={theme} />
+                            )}
+                            {callState === 'active' && (
+                                <CallControls
+                                    showMicControls={callMode === 'voice'}
+                                    isMuted={isMuted}
+                                    onToggleMute={() => setIsMuted(m => !m)}
+                                    isOnHold={isOnHold}
+                                    onToggleHold={toggleHold}
+                                    pushToTalk={pushToTalk}
+                                    onTogglePushToTalk={() => setPushToTalk(p => !p)}
+                                    isTalking={isTalking}
+                                    onTalkStart={() => setIsTalking(true)}
+                                    onTalkEnd={() => setIsTalking(false)}
+                                    theme={theme}
                                 />
-                            </div>
-                        )}
-                        <CallButton 
-                            isCallActive={callState === 'active' || callState === 'calling'}
-                            onClick={handleCallToggle}
-                            disabled={callState === 'ended'}
-                            theme={theme}
-                        />
-                    </div>
+                            )}
+                            <CallButton 
+                                isCallActive={callState === 'active' || callState === 'calling' || callState === 'reconnecting'}
+                                onClick={handleCallToggle}
+                                disabled={callState === 'ended'}
+                                theme={theme}
+                            />
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,35 @@
+import { CallRecord } from './types';
+import { getAll, put, remove } from './utils/db';
+
+// --- Call History ---
+
+export function createCallId(startedAt: number): string {
+    return `call-${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Newest first.
+export async function loadCallHistory(): Promise<CallRecord[]> {
+    try {
+        const calls = await getAll<CallRecord>('calls');
+        return calls.sort((a, b) => b.startedAt - a.startedAt);
+    } catch (error) {
+        console.error('Could not load call history:', error);
+        return [];
+    }
+}
+
+export function saveCall(call: CallRecord): Promise<IDBValidKey> {
+    return put('calls', call);
+}
+
+export function deleteCall(id: string): Promise<undefined> {
+    return remove('calls', id);
+}
+
+// Case-insensitive match against the persona name and everything said in the call.
+export function matchesSearch(call: CallRecord, query: string): boolean {
+    const q = query.trim().toLowerCase();
+    if (!q) return true;
+    return call.personaLabel.toLowerCase().includes(q)
+        || call.transcript.some(entry => entry.text.toLowerCase().includes(q));
+}
@@ -0,0 +1,57 @@
+import React, { useRef } from 'react';
+import { AppTheme } from '../types';
+import { SPEAKING_LEVEL, useAnalyserLevel, usePrefersReducedMotion } from './AudioVisualizers';
+
+interface AIAvatarProps {
+    theme: AppTheme;
+    // The AI's output audio; the avatar "talks" along with it.
+    analyser?: AnalyserNode | null;
+}
+
+const AIAvatar: React.FC<AIAvatarProps> = ({ theme, analyser = null }) => {
+    const jokeAvatar = "😂";
+    const horrorAvatar = "🌙";
+    const jokeBg = "bg-gradient-to-br from-amber-400 to-orange-600";
+    const horrorBg = "bg-gradient-to-br from-indigo-800 to-rose-900";
+
+    const reducedMotion = usePrefersReducedMotion();
+    const circleRef = useRef<HTMLDivElement>(null);
+    const faceRef = useRef<HTMLSpanElement>(null);
+
+    useAnalyserLevel(analyser, (level) => {
+        const circle = circleRef.current;
+        const face = faceRef.current;
+        if (!circle || !face) return;
+        if (!analyser) {
+            circle.style.transform = circle.style.boxShadow = '';
+            face.style.transform = face.style.opacity = '';
+            return;
+        }
+        if (reducedMotion) {
+            // No movement: just a steady ring while the AI talks.
+            circle.style.boxShadow = level > SPEAKING_LEVEL
+                ? `0 0 0 4px ${theme === 'jokes' ? 'rgba(251, 191, 36, 0.8)' : 'rgba(225, 29, 72, 0.8)'}`
+                : '';
+            return;
+        }
+        if (theme === 'jokes') {
+            // A bouncy laugh: the face bobs and tilts with the voice, a warm glow behind it.
+            face.style.transform = `scale(${1 + level * 0.25}) rotate(${Math.sin(performance.now() / 90) * level * 10}deg)`;
+            circle.style.boxShadow = `0 0 ${10 + level * 40}px ${level * 12}px rgba(251, 191, 36, ${0.2 + level * 0.5})`;
+        } else {
+            // Something breathing in the dark: a slow swell and a flickering blood-red halo.
+            const flicker = 0.75 + Math.random() * 0.25;
+            circle.style.transform = `scale(${1 + level * 0.08})`;
+            face.style.opacity = String(0.6 + level * 0.4 * flicker);
+            circle.style.boxShadow = `0 0 ${20 + level * 60}px ${level * 16}px rgba(225, 29, 72, ${level * 0.6 * flicker})`;
+        }
+    });
+
+    return (
+        <div ref={circleRef} className={`w-32 h-32 ${theme === 'jokes' ? jokeBg : horrorBg} rounded-full flex items-center justify-center shadow-lg mb-4`}>
+            <span ref={faceRef} className="text-6xl font-bold text-slate-900 drop-shadow-lg">{theme === 'jokes' ? jokeAvatar : horrorAvatar}</span>
+        </div>
+    );
+};
+
+export default AIAvatar;
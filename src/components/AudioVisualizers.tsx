@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppTheme } from '../types';
+import { readLevel } from '../utils/levels';
+import { useI18n } from '../i18n';
+
+// Levels above this count as someone speaking.
+export const SPEAKING_LEVEL = 0.15;
+
+export function usePrefersReducedMotion(): boolean {
+    const query = '(prefers-reduced-motion: reduce)';
+    const [reduced, setReduced] = useState(() => window.matchMedia?.(query).matches ?? false);
+    useEffect(() => {
+        const media = window.matchMedia?.(query);
+        if (!media) return;
+        const onChange = () => setReduced(media.matches);
+        media.addEventListener('change', onChange);
+        return () => media.removeEventListener('change', onChange);
+    }, []);
+    return reduced;
+}
+
+// Calls `onFrame` with the analyser's level on every animation frame.
+// Updates go straight to the DOM through refs, so meters don't re-render React.
+export function useAnalyserLevel(analyser: AnalyserNode | null, onFrame: (level: number) => void): void {
+    const onFrameRef = useRef(onFrame);
+    onFrameRef.current = onFrame;
+
+    useEffect(() => {
+        if (!analyser) {
+            onFrameRef.current(0);
+            return;
+        }
+        const scratch = new Float32Array(analyser.fftSize);
+        let frame = 0;
+        const tick = () => {
+            onFrameRef.current(readLevel(analyser, scratch));
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => {
+            cancelAnimationFrame(frame);
+            onFrameRef.current(0);
+        };
+    }, [analyser]);
+}
+
+export const MicLevelMeter: React.FC<{ analyser: AnalyserNode | null; muted: boolean; theme: AppTheme }> = ({ analyser, muted, theme }) => {
+    const { t } = useI18n();
+    const barRef = useRef<HTMLDivElement>(null);
+    useAnalyserLevel(analyser, (level) => {
+        if (barRef.current) barRef.current.style.transform = `scaleX(${muted ? 0 : level})`;
+    });
+
+    return (
+        <div className="w-full max-w-[200px] flex items-center gap-3" title={muted ? t('mic.muted') : t('mic.levelTitle')}>
+            <span className="text-sm" aria-hidden="true">{muted ? '🔇' : '🎤'}</span>
+            <div className="flex-grow h-2 bg-slate-700 rounded-full overflow-hidden" role="meter" aria-label={t('mic.level')}>
+                <div
+                    ref={barRef}
+                    className={`h-full w-full origin-left ${theme === 'jokes' ? 'bg-emerald-400' : 'bg-indigo-400'}`}
+                    style={{ transform: 'scaleX(0)' }}
+                />
+            </div>
+        </div>
+    );
+};
+
+const BAR_COUNT = 12;
+
+// Frequency bars for the AI's voice. With reduced motion it's a single light that's on while the AI talks.
+export const OutputVisualizer: React.FC<{ analyser: AnalyserNode | null; theme: AppTheme }> = ({ analyser, theme }) => {
+    const { t } = useI18n();
+    const reducedMotion = usePrefersReducedMotion();
+    const barsRef = useRef<(HTMLSpanElement | null)[]>([]);
+    const lightRef = useRef<HTMLSpanElement>(null);
+    const color = theme === 'jokes' ? 'bg-amber-400' : 'bg-rose-500';
+
+    useEffect(() => {
+        if (!analyser || reducedMotion) return;
+        const bins = new Uint8Array(analyser.frequencyBinCount);
+        // Speech lives in the lower part of the spectrum; spread the bars over it.
+        const usable = Math.floor(bins.length / 3);
+        let frame = 0;
+        const tick = () => {
+            analyser.getByteFrequencyData(bins);
+            barsRef.current.forEach((bar, i) => {
+                if (!bar) return;
+                const start = Math.floor((i / BAR_COUNT) * usable);
+                const end = Math.max(start + 1, Math.floor(((i + 1) / BAR_COUNT) * usable));
+                let peak = 0;
+                for (let b = start; b < end; b++) peak = Math.max(peak, bins[b]);
+                bar.style.transform = `scaleY(${Math.max(0.05, peak / 255)})`;
+            });
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [analyser, reducedMotion]);
+
+    useAnalyserLevel(reducedMotion ? analyser : null, (level) => {
+        if (lightRef.current) lightRef.current.style.opacity = level > SPEAKING_LEVEL ? '1' : '0.2';
+    });
+
+    if (reducedMotion) {
+        return (
+            <div className="h-6 flex items-center justify-center gap-2 text-xs text-slate-400" aria-hidden="true">
+                <span ref={lightRef} className={`w-2.5 h-2.5 rounded-full ${color}`} style={{ opacity: 0.2 }} />
+                {t('transcript.ai')}
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-6 flex items-end justify-center gap-1" aria-hidden="true">
+            {Array.from({ length: BAR_COUNT }, (_, i) => (
+                <span
+                    key={i}
+                    ref={el => { barsRef.current[i] = el; }}
+                    className={`w-1.5 h-full rounded-sm origin-bottom ${color}`}
+                    style={{ transform: 'scaleY(0.05)' }}
+                />
+            ))}
+        </div>
+    );
+};
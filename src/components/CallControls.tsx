@@ -0,0 +1,63 @@
+import React from 'react';
+import { AppTheme } from '../types';
+import { useI18n } from '../i18n';
+
+interface CallControlsProps {
+    // Mute and push-to-talk only make sense with a mic (not in text mode).
+    showMicControls: boolean;
+    isMuted: boolean;
+    onToggleMute: () => void;
+    isOnHold: boolean;
+    onToggleHold: () => void;
+    pushToTalk: boolean;
+    onTogglePushToTalk: () => void;
+    isTalking: boolean;
+    onTalkStart: () => void;
+    onTalkEnd: () => void;
+    theme: AppTheme;
+}
+
+const CallControls: React.FC<CallControlsProps> = ({
+    showMicControls, isMuted, onToggleMute, isOnHold, onToggleHold, pushToTalk, onTogglePushToTalk, isTalking, onTalkStart, onTalkEnd, theme,
+}) => {
+    const { t } = useI18n();
+    const activeClasses = theme === 'jokes' ? 'bg-amber-500 text-slate-900' : 'bg-rose-600 text-white';
+    const toggleClasses = (on: boolean) =>
+        `px-3 py-1.5 text-xs font-semibold rounded-md transition-colors ${on ? activeClasses : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`;
+
+    return (
+        <div className="flex flex-col items-center gap-3 animate-[fade-in-up_0.5s_ease-out]">
+            <div className="flex gap-2">
+                {showMicControls && (
+                    <>
+                        <button onClick={onToggleMute} aria-pressed={isMuted} disabled={isOnHold} className={`${toggleClasses(isMuted)} disabled:opacity-50`}>
+                            {isMuted ? t('controls.unmute') : t('controls.mute')}
+                        </button>
+                        <button onClick={onTogglePushToTalk} aria-pressed={pushToTalk} disabled={isOnHold} className={`${toggleClasses(pushToTalk)} disabled:opacity-50`}>
+                            {t('controls.pushToTalk')}
+                        </button>
+                    </>
+                )}
+                <button onClick={onToggleHold} aria-pressed={isOnHold} className={toggleClasses(isOnHold)}>
+                    {isOnHold ? t('controls.resume') : t('controls.hold')}
+                </button>
+            </div>
+            {isOnHold && <span className="text-xs text-slate-400 animate-pulse">{t('controls.onHold')}</span>}
+            {showMicControls && pushToTalk && !isOnHold && (
+                <button
+                    onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); onTalkStart(); }}
+                    onPointerUp={onTalkEnd}
+                    onPointerCancel={onTalkEnd}
+                    disabled={isMuted}
+                    className={`px-6 py-3 rounded-full text-sm font-semibold select-none touch-none transition-colors disabled:opacity-50 ${
+                        isTalking ? activeClasses : 'bg-slate-700 text-slate-200 hover:bg-slate-600'
+                    }`}
+                >
+                    {isTalking ? t('controls.talking') : t('controls.holdToTalk')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default CallControls;
@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CallRecord } from '../types';
+import { matchesSearch } from '../callHistory';
+import TranscriptionPanel, { JokeFeedback } from './TranscriptionPanel';
+import TranscriptExportMenu from './TranscriptExportMenu';
+import { TranscriptScript } from '../utils/transliterate';
+import { formatClock, useI18n } from '../i18n';
+
+interface CallHistoryProps {
+    calls: CallRecord[];
+    onDelete: (id: string) => void;
+    onClose: () => void;
+    script: TranscriptScript;
+    onScriptChange: (script: TranscriptScript) => void;
+    // Lets past jokes be rated and saved from the replay.
+    feedbackFor: (call: CallRecord) => JokeFeedback;
+}
+
+interface CallReplayProps {
+    call: CallRecord;
+    onBack: () => void;
+    script: TranscriptScript;
+    onScriptChange: (script: TranscriptScript) => void;
+    feedback: JokeFeedback;
+}
+
+const CallReplay: React.FC<CallReplayProps> = ({ call, onBack, script, onScriptChange, feedback }) => {
+    const { t, formatDate } = useI18n();
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!call.audio) return;
+        const url = URL.createObjectURL(call.audio);
+        setAudioUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [call.audio]);
+
+    return (
+        <div className="w-full flex-grow flex flex-col gap-3 min-h-0 animate-[fade-in-up_0.3s_ease-out]">
+            <div className="flex items-center justify-between">
+                <button onClick={onBack} className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-300 hover:bg-slate-600">{t('common.backArrow')}</button>
+                <div className="text-right">
+                    <div className="text-sm font-semibold text-white">{call.personaLabel}</div>
+                    <div className="text-xs text-slate-400">{formatDate(call.startedAt)} · {formatClock(call.durationSeconds)}</div>
+                </div>
+            </div>
+            {audioUrl && <audio controls src={audioUrl} className="w-full" />}
+            <div className="flex-grow min-h-0">
+                <TranscriptionPanel
+                    transcriptions={call.transcript}
+                    partialInput=""
+                    partialOutput=""
+                    isAiThinking={false}
+                    theme={call.theme}
+                    script={script}
+                    onScriptChange={onScriptChange}
+                    feedback={feedback}
+                />
+            </div>
+            <TranscriptExportMenu
+                transcript={call.transcript}
+                meta={{ personaLabel: call.personaLabel, startedAt: call.startedAt }}
+                fileBase={`transcript-${call.category}`}
+                script={script}
+            />
+        </div>
+    );
+};
+
+const CallHistory: React.FC<CallHistoryProps> = ({ calls, onDelete, onClose, script, onScriptChange, feedbackFor }) => {
+    const { t, formatDate } = useI18n();
+    const [query, setQuery] = useState('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    const filtered = useMemo(() => calls.filter(call => matchesSearch(call, query)), [calls, query]);
+    const selected = calls.find(call => call.id === selectedId);
+
+    if (selected) {
+        return <CallReplay call={selected} onBack={() => setSelectedId(null)} script={script} onScriptChange={onScriptChange} feedback={feedbackFor(selected)} />;
+    }
+
+    return (
+        <div className="w-full flex-grow flex flex-col gap-3 min-h-0 animate-[fade-in-up_0.3s_ease-out]">
+            <h2 className="text-xl font-bold text-white">{t('history.title')}</h2>
+            <input
+                type="search"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder={t('history.search')}
+                className="w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <div className="flex-grow overflow-y-auto space-y-2 min-h-0">
+                {filtered.length === 0 && (
+                    <p className="text-slate-400 text-sm">{calls.length === 0 ? t('history.empty') : t('history.noMatches')}</p>
+                )}
+                {filtered.map(call => (
+                    <div key={call.id} className="flex items-center justify-between bg-slate-700/50 rounded-md px-3 py-2">
+                        <button onClick={() => setSelectedId(call.id)} className="text-left flex-grow min-w-0">
+                            <div className="text-sm font-semibold text-white truncate">
+                                {call.theme === 'horror' ? '🌙' : '😂'} {call.personaLabel}
+                            </div>
+                            <div className="text-xs text-slate-400">
+                                {formatDate(call.startedAt)} · {formatClock(call.durationSeconds)}{call.audio ? ' · 🎧' : ''}
+                            </div>
+                        </button>
+                        <button onClick={() => onDelete(call.id)} className="ml-2 text-xs px-2 py-1 rounded bg-red-800 text-red-100 hover:bg-red-700">{t('common.delete')}</button>
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-center">
+                <button onClick={onClose} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600">{t('common.done')}</button>
+            </div>
+        </div>
+    );
+};
+
+export default CallHistory;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { AppTheme } from '../types';
+import { useI18n } from '../i18n';
+
+interface ChatInputProps {
+    onSend: (text: string) => void;
+    disabled: boolean;
+    theme: AppTheme;
+}
+
+// Message box for text mode: typed turns instead of the mic.
+const ChatInput: React.FC<ChatInputProps> = ({ onSend, disabled, theme }) => {
+    const { t } = useI18n();
+    const [text, setText] = useState('');
+
+    return (
+        <form
+            className="w-full flex gap-2 animate-[fade-in-up_0.5s_ease-out]"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (!text.trim() || disabled) return;
+                onSend(text);
+                setText('');
+            }}
+        >
+            <input
+                value={text}
+                onChange={e => setText(e.target.value)}
+                placeholder={t('chat.placeholder')}
+                aria-label={t('chat.label')}
+                autoFocus
+                disabled={disabled}
+                className="flex-grow bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+            />
+            <button
+                type="submit"
+                disabled={disabled || !text.trim()}
+                className={`px-4 py-2 text-sm font-semibold rounded-md disabled:opacity-50 ${theme === 'jokes' ? 'bg-amber-500 text-slate-900 hover:bg-amber-400' : 'bg-rose-600 text-white hover:bg-rose-500'}`}
+            >
+                {t('chat.send')}
+            </button>
+        </form>
+    );
+};
+
+export default ChatInput;
@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { RatedJoke } from '../types';
+import { matchesJokeSearch } from '../jokes';
+import { useI18n } from '../i18n';
+
+interface FavoritesLibraryProps {
+    jokes: RatedJoke[];
+    onRemove: (joke: RatedJoke) => void;
+    onClose: () => void;
+}
+
+const ALL_CATEGORIES = '';
+
+const FavoritesLibrary: React.FC<FavoritesLibraryProps> = ({ jokes, onRemove, onClose }) => {
+    const { t, formatDate } = useI18n();
+    const [query, setQuery] = useState('');
+    const [category, setCategory] = useState(ALL_CATEGORIES);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    const favorites = useMemo(() => jokes.filter(joke => joke.favorite), [jokes]);
+    // One filter option per category that has favorites, named after its persona.
+    const categories = useMemo(
+        () => Array.from(new Map(favorites.map(joke => [joke.category, joke.personaLabel])).entries()),
+        [favorites],
+    );
+    const filtered = favorites.filter(joke => (category === ALL_CATEGORIES || joke.category === category) && matchesJokeSearch(joke, query));
+    const canShare = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+    const copy = async (joke: RatedJoke) => {
+        try {
+            await navigator.clipboard.writeText(joke.text);
+            setCopiedId(joke.id);
+            setTimeout(() => setCopiedId(id => (id === joke.id ? null : id)), 1500);
+        } catch (error) {
+            console.error('Could not copy joke:', error);
+        }
+    };
+
+    const share = (joke: RatedJoke) => {
+        navigator.share({ title: joke.personaLabel, text: joke.text }).catch(error => {
+            // Closing the share sheet rejects with AbortError; that's not a failure.
+            if ((error as DOMException).name !== 'AbortError') console.error('Could not share joke:', error);
+        });
+    };
+
+    return (
+        <div className="w-full flex-grow flex flex-col gap-3 min-h-0 animate-[fade-in-up_0.3s_ease-out]">
+            <h2 className="text-xl font-bold text-white">{t('favorites.title')}</h2>
+            <div className="flex gap-2">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder={t('favorites.search')}
+                    className="flex-grow min-w-0 bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <select
+                    value={category}
+                    onChange={e => setCategory(e.target.value)}
+                    aria-label={t('favorites.category')}
+                    className="bg-slate-900 border border-slate-600 rounded-md px-2 py-2 text-xs text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                    <option value={ALL_CATEGORIES}>{t('favorites.allCategories')}</option>
+                    {categories.map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                </select>
+            </div>
+            <div className="flex-grow overflow-y-auto space-y-2 min-h-0">
+                {filtered.length === 0 && (
+                    <p className="text-slate-400 text-sm">{favorites.length === 0 ? t('favorites.empty') : t('favorites.noMatches')}</p>
+                )}
+                {filtered.map(joke => (
+                    <div key={joke.id} className="bg-slate-700/50 rounded-md px-3 py-2 text-left">
+                        <p className="text-sm text-slate-200 whitespace-pre-line">{joke.text.trim()}</p>
+                        <div className="mt-2 flex items-center justify-between gap-2">
+                            <span className="text-xs text-slate-400 truncate">
+                                {joke.personaLabel} · {formatDate(joke.savedAt)}{joke.rating === 'up' ? ' · 👍' : joke.rating === 'down' ? ' · 👎' : ''}
+                            </span>
+                            <div className="flex gap-2 shrink-0">
+                                <button onClick={() => copy(joke)} className="text-xs px-2 py-1 rounded bg-slate-600 text-slate-200 hover:bg-slate-500">
+                                    {copiedId === joke.id ? t('favorites.copied') : t('favorites.copy')}
+                                </button>
+                                {canShare && (
+                                    <button onClick={() => share(joke)} className="text-xs px-2 py-1 rounded bg-slate-600 text-slate-200 hover:bg-slate-500">{t('favorites.share')}</button>
+                                )}
+                                <button onClick={() => onRemove(joke)} className="text-xs px-2 py-1 rounded bg-red-800 text-red-100 hover:bg-red-700">{t('favorites.remove')}</button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-center">
+                <button onClick={onClose} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600">{t('common.done')}</button>
+            </div>
+        </div>
+    );
+};
+
+export default FavoritesLibrary;
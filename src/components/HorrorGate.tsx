@@ -0,0 +1,31 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+
+interface HorrorGateProps {
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+// Age and consent check shown before a horror persona can be picked.
+const HorrorGate: React.FC<HorrorGateProps> = ({ onConfirm, onCancel }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="flex flex-col items-center justify-center p-4 text-center my-4 animate-[fade-in-up_0.3s_ease-out]">
+            <div className="text-5xl mb-4" aria-hidden="true">🌙</div>
+            <h2 className="text-xl font-bold text-rose-400">{t('horrorGate.title')}</h2>
+            <p className="mt-2 text-slate-300 max-w-xs">{t('horrorGate.body')}</p>
+            <button
+                onClick={onConfirm}
+                className="mt-4 px-4 py-2 text-sm font-semibold rounded-md bg-rose-600 text-white hover:bg-rose-700"
+            >
+                {t('horrorGate.confirm')}
+            </button>
+            <button onClick={onCancel} className="mt-2 text-xs text-slate-400 hover:underline">
+                {t('horrorGate.cancel')}
+            </button>
+        </div>
+    );
+};
+
+export default HorrorGate;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { BlockedTermAction, FamilySafetySettings } from '../types';
+import { DEFAULT_BLOCKLIST, hashPin, MIN_PIN_LENGTH, parseBlocklist, verifyPin } from '../safety';
+import { useI18n } from '../i18n';
+
+interface ParentalControlsProps {
+    settings: FamilySafetySettings;
+    onSave: (settings: FamilySafetySettings) => void;
+    // Makes the horror age/consent screen appear again. Called on save, if ticked.
+    onResetHorrorConsent: () => void;
+    onClose: () => void;
+}
+
+const inputClasses = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const labelClasses = 'block text-xs font-semibold text-slate-400 mb-1 text-left';
+
+// Family-safe settings. Once a parent PIN is set, the PIN is needed to open them.
+const ParentalControls: React.FC<ParentalControlsProps> = ({ settings, onSave, onResetHorrorConsent, onClose }) => {
+    const { t } = useI18n();
+    const [unlocked, setUnlocked] = useState(settings.pinHash === null);
+    const [pin, setPin] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [draft, setDraft] = useState(settings);
+    const [blocklistText, setBlocklistText] = useState(settings.blocklist.join('\n'));
+    const [resetHorrorConsent, setResetHorrorConsent] = useState(false);
+
+    const update = <K extends keyof FamilySafetySettings>(key: K, value: FamilySafetySettings[K]) => {
+        setDraft(prev => ({ ...prev, [key]: value }));
+    };
+
+    if (!unlocked) {
+        return (
+            <form
+                className="w-full flex flex-col items-center gap-3 animate-[fade-in-up_0.3s_ease-out]"
+                onSubmit={async (e) => {
+                    e.preventDefault();
+                    if (await verifyPin(pin, settings.pinHash)) {
+                        setUnlocked(true);
+                        setError(null);
+                    } else {
+                        setError(t('family.wrongPin'));
+                    }
+                    setPin('');
+                }}
+            >
+                <h2 className="text-xl font-bold text-white">{t('family.title')}</h2>
+                <label className={labelClasses} htmlFor="parent-pin">{t('family.enterPin')}</label>
+                <input id="parent-pin" type="password" inputMode="numeric" autoComplete="off" autoFocus className={`${inputClasses} max-w-[10rem] text-center`} value={pin} onChange={e => setPin(e.target.value)} />
+                {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+                <div className="flex gap-2">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600">{t('common.cancel')}</button>
+                    <button type="submit" disabled={!pin} className="px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">{t('family.unlock')}</button>
+                </div>
+            </form>
+        );
+    }
+
+    const hasPin = draft.pinHash !== null || newPin.length > 0;
+
+    return (
+        <form
+            className="w-full flex-grow flex flex-col gap-3 overflow-y-auto min-h-0 animate-[fade-in-up_0.3s_ease-out]"
+            onSubmit={async (e) => {
+                e.preventDefault();
+                if (newPin && !/^\d+$/.test(newPin)) {
+                    setError(t('family.pinDigits'));
+                    return;
+                }
+                if (newPin && newPin.length < MIN_PIN_LENGTH) {
+                    setError(t('family.pinTooShort', { count: MIN_PIN_LENGTH }));
+                    return;
+                }
+                const pinHash = newPin ? await hashPin(newPin) : draft.pinHash;
+                onSave({ ...draft, pinHash, hideHorror: draft.hideHorror && pinHash !== null, blocklist: parseBlocklist(blocklistText) });
+                if (resetHorrorConsent) onResetHorrorConsent();
+                onClose();
+            }}
+        >
+            <h2 className="text-xl font-bold text-white">{t('family.title')}</h2>
+            <label className="flex items-start gap-2 text-sm text-slate-300 text-left">
+                <input type="checkbox" className="mt-1" checked={draft.familySafe} onChange={e => update('familySafe', e.target.checked)} />
+                <span>
+                    {t('family.familySafe')}
+                    <span className="block text-xs text-slate-400">{t('family.familySafeHint')}</span>
+                </span>
+            </label>
+            <div>
+                <label className={labelClasses} htmlFor="blocked-action">{t('family.onBlocked')}</label>
+                <select id="blocked-action" className={inputClasses} value={draft.onBlocked} onChange={e => update('onBlocked', e.target.value as BlockedTermAction)}>
+                    <option value="redirect">{t('family.onBlocked.redirect')}</option>
+                    <option value="end">{t('family.onBlocked.end')}</option>
+                </select>
+            </div>
+            <div>
+                <label className={labelClasses} htmlFor="blocklist">{t('family.blocklist')}</label>
+                <textarea id="blocklist" rows={5} className={inputClasses} value={blocklistText} onChange={e => setBlocklistText(e.target.value)} />
+                <button type="button" onClick={() => setBlocklistText(DEFAULT_BLOCKLIST.join('\n'))} className="mt-1 text-xs text-indigo-400 hover:underline">
+                    {t('family.resetBlocklist')}
+                </button>
+            </div>
+            <label className="flex items-start gap-2 text-sm text-slate-300 text-left">
+                <input type="checkbox" className="mt-1" checked={draft.hideHorror && hasPin} disabled={!hasPin} onChange={e => update('hideHorror', e.target.checked)} />
+                <span>
+                    {t('family.hideHorror')}
+                    {!hasPin && <span className="block text-xs text-slate-400">{t('family.hideHorrorNeedsPin')}</span>}
+                </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-slate-300 text-left">
+                <input type="checkbox" className="mt-1" checked={resetHorrorConsent} onChange={e => setResetHorrorConsent(e.target.checked)} />
+                <span>{t('family.resetHorrorConsent')}</span>
+            </label>
+            <div>
+                <label className={labelClasses} htmlFor="new-parent-pin">{draft.pinHash ? t('family.changePin') : t('family.setPin')}</label>
+                <input id="new-parent-pin" type="password" inputMode="numeric" autoComplete="new-password" className={inputClasses} value={newPin} onChange={e => setNewPin(e.target.value)} />
+                {draft.pinHash && (
+                    <button type="button" onClick={() => update('pinHash', null)} className="mt-1 text-xs text-indigo-400 hover:underline">
+                        {t('family.removePin')}
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-xs text-red-400 text-left" role="alert">{error}</p>}
+            <div className="flex gap-2 justify-end mt-2">
+                <button type="button" onClick={onClose} className="px-4 py-2 text-sm rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600">{t('common.cancel')}</button>
+                <button type="submit" className="px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700">{t('common.save')}</button>
+            </div>
+        </form>
+    );
+};
+
+export default ParentalControls;
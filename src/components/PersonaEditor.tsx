@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import { AppTheme, DuckingSettings, Persona, PersonaToolSet } from '../types';
+import { createPersonaId, DEFAULT_VOICE, PersonaFileError, VOICES } from '../personas';
+import { resolveDucking } from '../sounds/ducker';
+import { useI18n } from '../i18n';
+
+interface PersonaEditorProps {
+    personas: Persona[];
+    onSave: (persona: Persona) => void;
+    onDelete: (id: string) => void;
+    onExport: () => void;
+    onImport: (file: File) => void;
+    onClose: () => void;
+    importError: PersonaFileError | null;
+}
+
+const emptyPersona = (): Persona => ({
+    id: createPersonaId(),
+    label: '',
+    theme: 'jokes',
+    systemInstruction: '',
+    voiceName: DEFAULT_VOICE,
+    tools: [],
+    greeting: '',
+    custom: true,
+});
+
+const TOOL_OPTIONS: PersonaToolSet[] = ['soundEffects', 'comedy'];
+
+const inputClasses = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const labelClasses = 'block text-xs font-semibold text-slate-400 mb-1 text-left';
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ personas, onSave, onDelete, onExport, onImport, onClose, importError }) => {
+    const { t } = useI18n();
+    const [draft, setDraft] = useState<Persona | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const update = <K extends keyof Persona>(key: K, value: Persona[K]) => {
+        setDraft(prev => prev ? { ...prev, [key]: value } : prev);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    if (draft) {
+        const isValid = draft.label.trim() && draft.systemInstruction.trim();
+        const ducking = resolveDucking(draft.ducking);
+        const updateDucking = (key: keyof DuckingSettings, value: string) => {
+            const number = parseFloat(value);
+            update('ducking', { ...draft.ducking, [key]: Number.isNaN(number) ? undefined : key === 'depth' ? number / 100 : number });
+        };
+        return (
+            <form
+                className="w-full flex-grow flex flex-col gap-3 overflow-y-auto min-h-0 animate-[fade-in-up_0.3s_ease-out]"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    if (!isValid) return;
+                    onSave({ ...draft, label: draft.label.trim() });
+                    setDraft(null);
+                }}
+            >
+                <h2 className="text-xl font-bold text-white">{personas.some(p => p.id === draft.id) ? t('personas.editTitle') : t('personas.newTitle')}</h2>
+                <div>
+                    <label className={labelClasses} htmlFor="persona-name">{t('personas.name')}</label>
+                    <input id="persona-name" className={inputClasses} value={draft.label} placeholder="Lucknowi Nawab" onChange={e => update('label', e.target.value)} />
+                </div>
+                <div className="flex gap-3">
+                    <div className="flex-1">
+                        <label className={labelClasses} htmlFor="persona-theme">{t('personas.theme')}</label>
+                        <select id="persona-theme" className={inputClasses} value={draft.theme} onChange={e => update('theme', e.target.value as AppTheme)}>
+                            <option value="jokes">{t('personas.theme.jokes')}</option>
+                            <option value="horror">{t('personas.theme.horror')}</option>
+                        </select>
+                    </div>
+                    <div className="flex-1">
+                        <label className={labelClasses} htmlFor="persona-voice">{t('voice.label')}</label>
+                        <select id="persona-voice" className={inputClasses} value={draft.voiceName} onChange={e => update('voiceName', e.target.value)}>
+                            {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div>
+                    <label className={labelClasses} htmlFor="persona-greeting">{t('personas.greeting')}</label>
+                    <input id="persona-greeting" className={inputClasses} value={draft.greeting} placeholder="Aadab! Pehle aap..." onChange={e => update('greeting', e.target.value)} />
+                </div>
+                <div>
+                    <label className={labelClasses} htmlFor="persona-prompt">{t('personas.systemPrompt')}</label>
+                    <textarea id="persona-prompt" rows={6} className={inputClasses} value={draft.systemInstruction} placeholder="You are a polite Lucknowi Nawab who tells jokes about tehzeeb..." onChange={e => update('systemInstruction', e.target.value)} />
+                </div>
+                {TOOL_OPTIONS.map(toolSet => (
+                    <label key={toolSet} className="flex items-center gap-2 text-sm text-slate-300">
+                        <input
+                            type="checkbox"
+                            checked={draft.tools.includes(toolSet)}
+                            onChange={e => update('tools', e.target.checked ? [...draft.tools, toolSet] : draft.tools.filter(t => t !== toolSet))}
+                        />
+                        {t(`personas.tools.${toolSet}`)}
+                    </label>
+                ))}
+                {draft.tools.length > 0 && (
+                    <fieldset className="flex gap-3">
+                        <legend className={labelClasses}>{t('personas.ducking')}</legend>
+                        <div className="flex-1">
+                            <label className={labelClasses} htmlFor="ducking-depth">{t('personas.ducking.depth')}</label>
+                            <input id="ducking-depth" type="number" min={0} max={100} className={inputClasses} value={Math.round(ducking.depth * 100)} onChange={e => updateDucking('depth', e.target.value)} />
+                        </div>
+                        <div className="flex-1">
+                            <label className={labelClasses} htmlFor="ducking-attack">{t('personas.ducking.attack')}</label>
+                            <input id="ducking-attack" type="number" min={0} max={5000} className={inputClasses} value={ducking.attackMs} onChange={e => updateDucking('attackMs', e.target.value)} />
+                        </div>
+                        <div className="flex-1">
+                            <label className={labelClasses} htmlFor="ducking-release">{t('personas.ducking.release')}</label>
+                            <input id="ducking-release" type="number" min={0} max={10000} className={inputClasses} value={ducking.releaseMs} onChange={e => updateDucking('releaseMs', e.target.value)} />
+                        </div>
+                    </fieldset>
+                )}
+                <div className="flex gap-2 justify-end mt-2">
+                    <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 text-sm rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600">{t('common.cancel')}</button>
+                    <button type="submit" disabled={!isValid} className="px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">{t('common.save')}</button>
+                </div>
+            </form>
+        );
+    }
+
+    return (
+        <div className="w-full flex-grow flex flex-col gap-3 min-h-0 animate-[fade-in-up_0.3s_ease-out]">
+            <h2 className="text-xl font-bold text-white">{t('personas.title')}</h2>
+            <div className="flex-grow overflow-y-auto space-y-2 min-h-0">
+                {personas.length === 0 && (
+                    <p className="text-slate-400 text-sm">{t('personas.empty')}</p>
+                )}
+                {personas.map(p => (
+                    <div key={p.id} className="flex items-center justify-between bg-slate-700/50 rounded-md px-3 py-2">
+                        <div className="text-left">
+                            <div className="text-sm font-semibold text-white">{p.label}</div>
+                            <div className="text-xs text-slate-400">{p.theme === 'horror' ? t('personas.theme.horror') : t('personas.theme.jokes')} · {p.voiceName}</div>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={() => setDraft(p)} className="text-xs px-2 py-1 rounded bg-slate-600 text-slate-200 hover:bg-slate-500">{t('common.edit')}</button>
+                            <button onClick={() => onDelete(p.id)} className="text-xs px-2 py-1 rounded bg-red-800 text-red-100 hover:bg-red-700">{t('common.delete')}</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            {importError && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-3 py-2 rounded-md text-xs" role="alert">{t('personas.importError', { message: t(`personas.importError.${importError.code}`, { version: importError.version ?? '' }) })}</div>
+            )}
+            <div className="flex flex-wrap gap-2 justify-center">
+                <button onClick={() => setDraft(emptyPersona())} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700">{t('personas.new')}</button>
+                <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600">{t('common.import')}</button>
+                <button onClick={onExport} disabled={personas.length === 0} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50">{t('common.export')}</button>
+                <button onClick={onClose} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600">{t('common.done')}</button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+            </div>
+        </div>
+    );
+};
+
+export default PersonaEditor;
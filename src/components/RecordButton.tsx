@@ -1,4 +1,5 @@
 import React from 'react';
+import { useI18n } from '../i18n';
 
 const CallIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" viewBox="0 0 24 24" fill="currentColor">
@@ -20,6 +21,7 @@ interface CallButtonProps {
 }
 
 const CallButton: React.FC<CallButtonProps> = ({ isCallActive, onClick, disabled, theme }) => {
+    const { t } = useI18n();
     const themeClasses = theme === 'jokes' 
         ? 'bg-green-600 hover:bg-green-700 focus:ring-green-500 animate-pulse'
         : 'bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500 animate-pulse';
@@ -28,6 +30,7 @@ const CallButton: React.FC<CallButtonProps> = ({ isCallActive, onClick, disabled
         <button
             onClick={onClick}
             disabled={disabled}
+            aria-label={isCallActive ? t('call.end') : t('call.start')}
             className={`flex items-center justify-center h-20 w-20 rounded-full shadow-lg transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed ${
                 isCallActive
                     ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
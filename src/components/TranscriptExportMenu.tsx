@@ -0,0 +1,43 @@
+import React from 'react';
+import { TranscriptionEntry } from '../types';
+import { useI18n } from '../i18n';
+import { exportTranscript, TranscriptFormat, TranscriptMeta } from '../utils/transcriptExport';
+import { downloadBlob } from '../utils/download';
+import { TranscriptScript } from '../utils/transliterate';
+
+interface TranscriptExportMenuProps {
+    transcript: TranscriptionEntry[];
+    meta: TranscriptMeta;
+    fileBase: string;
+    // Exports use the same script as the transcript panel.
+    script: TranscriptScript;
+}
+
+const FORMAT_LABELS: { format: TranscriptFormat; label: string }[] = [
+    { format: 'srt', label: 'SRT' },
+    { format: 'vtt', label: 'WebVTT' },
+    { format: 'json', label: 'JSON' },
+    { format: 'md', label: 'Markdown' },
+];
+
+const TranscriptExportMenu: React.FC<TranscriptExportMenuProps> = ({ transcript, meta, fileBase, script }) => {
+    const { t } = useI18n();
+    if (transcript.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap justify-center items-center gap-2 mt-3 animate-[fade-in-up_0.5s_ease-out]">
+            <span className="text-xs text-slate-400 w-full">{t('transcript.export', { count: transcript.length })}</span>
+            {FORMAT_LABELS.map(({ format, label }) => (
+                <button
+                    key={format}
+                    onClick={() => downloadBlob(exportTranscript(transcript, meta, format, script), `${fileBase}.${format}`)}
+                    className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600"
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default TranscriptExportMenu;
@@ -1,7 +1,9 @@
 
 
 import React, { useRef, useEffect } from 'react';
-import { TranscriptionEntry } from '../types';
+import { JokeRating, RatedJoke, TranscriptionEntry } from '../types';
+import { useI18n } from '../i18n';
+import { TRANSCRIPT_SCRIPTS, TranscriptScript, transliterate } from '../utils/transliterate';
 
 interface TranscriptionPanelProps {
     transcriptions: TranscriptionEntry[];
@@ -9,16 +11,54 @@ interface TranscriptionPanelProps {
     partialOutput: string;
     isAiThinking: boolean;
     theme: 'jokes' | 'horror';
+    script: TranscriptScript;
+    onScriptChange: (script: TranscriptScript) => void;
+    // Rating and favorite buttons on finished AI turns; left out where they don't apply.
+    feedback?: JokeFeedback;
 }
 
-const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ transcriptions, partialInput, partialOutput, isAiThinking, theme }) => {
+export interface JokeFeedback {
+    jokeFor: (entry: TranscriptionEntry) => RatedJoke | undefined;
+    onRate: (entry: TranscriptionEntry, rating: JokeRating) => void;
+    onToggleFavorite: (entry: TranscriptionEntry) => void;
+}
+
+const FeedbackButtons: React.FC<{ entry: TranscriptionEntry; feedback: JokeFeedback }> = ({ entry, feedback }) => {
+    const { t } = useI18n();
+    const joke = feedback.jokeFor(entry);
+    const buttonClasses = (on: boolean) => `px-1.5 py-0.5 text-xs rounded transition-opacity ${on ? 'bg-slate-600 opacity-100' : 'opacity-50 hover:opacity-100'}`;
+
+    return (
+        <div className="flex gap-1 mt-1">
+            <button onClick={() => feedback.onRate(entry, 'up')} aria-pressed={joke?.rating === 'up'} aria-label={t('jokes.like')} title={t('jokes.like')} className={buttonClasses(joke?.rating === 'up')}>👍</button>
+            <button onClick={() => feedback.onRate(entry, 'down')} aria-pressed={joke?.rating === 'down'} aria-label={t('jokes.dislike')} title={t('jokes.dislike')} className={buttonClasses(joke?.rating === 'down')}>👎</button>
+            <button onClick={() => feedback.onToggleFavorite(entry)} aria-pressed={!!joke?.favorite} aria-label={t('jokes.favorite')} title={t('jokes.favorite')} className={buttonClasses(!!joke?.favorite)}>
+                {joke?.favorite ? '⭐' : '☆'}
+            </button>
+        </div>
+    );
+};
+
+// A message in the chosen script; with 'both', the Roman line sits under the Devanagari one.
+const ScriptText: React.FC<{ text: string; script: TranscriptScript }> = ({ text, script }) => {
+    const [first, ...rest] = transliterate(text, script).split('\n');
+    return (
+        <>
+            <p className="text-sm md:text-base">{first}</p>
+            {rest.map((line, i) => <p key={i} className="text-xs md:text-sm opacity-75 mt-1">{line}</p>)}
+        </>
+    );
+};
+
+const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ transcriptions, partialInput, partialOutput, isAiThinking, theme, script, onScriptChange, feedback }) => {
+    const { t } = useI18n();
     const scrollRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         if (scrollRef.current) {
             scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
         }
-    }, [transcriptions, partialInput, partialOutput, isAiThinking]);
+    }, [transcriptions, partialInput, partialOutput, isAiThinking, script]);
 
     const userColors = theme === 'jokes' 
         ? 'text-indigo-400 bg-indigo-500' 
@@ -32,20 +72,35 @@ const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ transcriptions,
             ref={scrollRef} 
             className="w-full h-full bg-slate-800/50 rounded-lg p-4 md:p-6 overflow-y-auto border border-slate-700 shadow-inner"
         >
+            <div className="flex justify-end gap-1 mb-3" role="group" aria-label={t('transcript.scriptGroup')}>
+                {TRANSCRIPT_SCRIPTS.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => onScriptChange(option)}
+                        aria-pressed={script === option}
+                        className={`px-2 py-0.5 text-xs rounded ${
+                            script === option ? 'bg-slate-600 text-white' : 'text-slate-400 hover:bg-slate-700'
+                        }`}
+                    >
+                        {t(`transcript.script.${option}`)}
+                    </button>
+                ))}
+            </div>
             <div className="space-y-4">
                 {/* Render completed transcriptions */}
                 {transcriptions.map((entry, index) => (
                     <div key={index} className={`flex flex-col ${entry.speaker === 'You' ? 'items-end' : 'items-start'}`}>
                         <div className={`text-sm font-bold mb-1 ${entry.speaker === 'You' ? userColors.split(' ')[0] : aiColors.split(' ')[0]}`}>
-                            {entry.speaker}
+                            {entry.speaker === 'You' ? t('transcript.you') : t('transcript.ai')}
                         </div>
                         <div className={`max-w-xs md:max-w-md lg:max-w-lg rounded-xl px-4 py-2 ${
                             entry.speaker === 'You' 
                                 ? `${userColors.split(' ')[1]} text-white rounded-br-none` 
                                 : `${aiColors.split(' ')[1]} text-slate-200 rounded-bl-none animate-[fade-in-up_0.5s_ease-out]` // Animate final AI messages
                         }`}>
-                            <p className="text-sm md:text-base">{entry.text}</p>
+                            <ScriptText text={entry.text} script={script} />
                         </div>
+                        {feedback && entry.speaker === 'AI' && <FeedbackButtons entry={entry} feedback={feedback} />}
                     </div>
                 ))}
                 
@@ -53,10 +108,10 @@ const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ transcriptions,
                 {partialInput && (
                      <div className="flex flex-col items-end animate-pulse">
                         <div className={`text-sm font-bold mb-1 ${userColors.split(' ')[0]}`}>
-                            You (Listening...)
+                            {t('transcript.listening')}
                         </div>
                         <div className={`max-w-xs md:max-w-md lg:max-w-lg rounded-xl px-4 py-2 ${userColors.split(' ')[1]} text-white rounded-br-none`}>
-                            <p className="text-sm md:text-base">{partialInput}</p>
+                            <ScriptText text={partialInput} script={script} />
                         </div>
                     </div>
                 )}
@@ -65,10 +120,10 @@ const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ transcriptions,
                 {partialOutput && (
                     <div className="flex flex-col items-start">
                         <div className={`text-sm font-bold mb-1 ${aiColors.split(' ')[0]}`}>
-                           AI
+                           {t('transcript.ai')}
                         </div>
                         <div className={`max-w-xs md:max-w-md lg:max-w-lg rounded-xl px-4 py-2 ${aiColors.split(' ')[1]} text-slate-200 rounded-bl-none`}>
-                            <p className="text-sm md:text-base">{partialOutput}</p>
+                            <ScriptText text={partialOutput} script={script} />
                         </div>
                     </div>
                 )}
@@ -77,7 +132,7 @@ const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ transcriptions,
                 {isAiThinking && (
                      <div className="flex flex-col items-start">
                         <div className={`text-sm font-bold mb-1 ${aiColors.split(' ')[0]}`}>
-                           AI
+                           {t('transcript.ai')}
                         </div>
                         <div className={`max-w-xs md:max-w-md lg:max-w-lg rounded-xl px-4 py-2 ${aiColors.split(' ')[1]} text-slate-200 rounded-bl-none`}>
                            <div className="flex space-x-1.5 py-1">
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VOICES, voicePreviewUrl } from '../personas';
+import { MessageKey, useI18n } from '../i18n';
+
+interface VoicePickerProps {
+    voiceName: string;
+    // The persona's own voice, marked in the list and used when the override is cleared.
+    defaultVoice: string;
+    onChange: (voiceName: string) => void;
+}
+
+const VoicePicker: React.FC<VoicePickerProps> = ({ voiceName, defaultVoice, onChange }) => {
+    const { t } = useI18n();
+    const [previewing, setPreviewing] = useState(false);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+
+    const stopPreview = () => {
+        audioRef.current?.pause();
+        audioRef.current = null;
+        setPreviewing(false);
+    };
+
+    // Stop a preview when the voice changes or the picker goes away.
+    useEffect(() => {
+        setPreviewError(null);
+        return stopPreview;
+    }, [voiceName]);
+
+    const togglePreview = () => {
+        if (previewing) {
+            stopPreview();
+            return;
+        }
+        const audio = new Audio(voicePreviewUrl(voiceName));
+        audio.onended = stopPreview;
+        audio.onerror = () => {
+            stopPreview();
+            setPreviewError(t('voice.noPreview', { voice: voiceName }));
+        };
+        audioRef.current = audio;
+        setPreviewing(true);
+        audio.play().catch(() => {
+            // Autoplay refusals and missing files both end up here.
+            if (audioRef.current === audio) stopPreview();
+        });
+    };
+
+    // Voices not in the standard list (e.g. from an imported persona) still show up.
+    const options = VOICES.includes(voiceName) ? VOICES : [voiceName, ...VOICES];
+
+    return (
+        <div className="mt-4 flex flex-col items-center gap-1">
+            <div className="flex items-center gap-2">
+                <label htmlFor="voice-picker" className="text-xs text-slate-400">{t('voice.label')}</label>
+                <select
+                    id="voice-picker"
+                    value={voiceName}
+                    onChange={e => onChange(e.target.value)}
+                    className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                    {options.map(v => (
+                        <option key={v} value={v}>
+                            {v}{VOICES.includes(v) ? ` · ${t(`voice.description.${v.toLowerCase()}` as MessageKey)}` : ''}{v === defaultVoice ? ` ${t('voice.default')}` : ''}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    onClick={togglePreview}
+                    aria-label={previewing ? t('voice.stopPreview') : t('voice.preview', { voice: voiceName })}
+                    className="text-xs px-2 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600"
+                >
+                    {previewing ? '■' : '▶'}
+                </button>
+            </div>
+            {previewError && <span className="text-xs text-slate-500">{previewError}</span>}
+        </div>
+    );
+};
+
+export default VoicePicker;
@@ -0,0 +1,168 @@
+// English UI strings. Keys are shared with the other catalogs; `{name}` is
+// filled in from params, and `{ one, other }` entries are picked by `count`.
+export const en = {
+    'app.horrorSubtitle': 'An Unknown Number',
+    'app.language': 'Language',
+
+    'config.title': 'Configuration Required',
+    'config.actionNeeded': 'Action Needed:',
+    'config.proxyUnreachable': 'The token proxy at {url} is not reachable, or has no API_KEY.',
+    'config.instructions': 'This application requires a Google AI API key, kept on the server. Start the proxy with {command} and set API_KEY in its environment (or in .env.local).',
+    'config.checkAgain': 'Check again',
+    'config.billing': 'For info on billing, visit',
+
+    'call.calling': 'Calling...',
+    'call.reconnecting': 'Reconnecting…',
+    'call.ended': 'Call Ended ({duration})',
+    'call.endedBySafety': 'Family-safe mode ended the call because of unsuitable language.',
+    'call.elapsed': 'Call time: {duration}',
+    'call.start': 'Start call',
+    'call.end': 'End call',
+    'call.volume': 'Volume',
+
+    'recording.active': 'Recording',
+    'recording.badge': 'REC',
+    'recording.title': 'Call recording ({duration})',
+    'recording.downloadWav': 'Download WAV',
+    'recording.downloadCompressed': 'Download WebM/Opus',
+
+    'mic.errorTitle': 'Microphone Error',
+    'mic.error.generic': 'Could not access the microphone. Please check your hardware and browser settings.',
+    'mic.error.denied': "Microphone permission denied. Please allow microphone access in your browser's site settings (often a lock icon in the address bar) and try again.",
+    'mic.error.notFound': 'No microphone was found on your device. Please connect a microphone and try again.',
+    'mic.error.inUse': 'Your microphone is currently in use by another application. Please close the other application and try again.',
+    'mic.continueWithText': '⌨️ Continue with text',
+    'mic.level': 'Microphone level',
+    'mic.levelTitle': 'Mic level',
+    'mic.muted': 'Muted',
+
+    'home.selectCategory': 'Select a Category',
+    'home.myCallers': '+ My Callers',
+    'home.recordCalls': 'Record calls',
+    'home.spatialAudio': '🎧 3D sound',
+    'home.spatialAudioHint': 'Sound effects come from around you. Headphones recommended.',
+    'home.callHistory': 'Call History ({count})',
+    'home.favorites': '⭐ Favorites ({count})',
+    'home.familySettings': '👪 Family settings',
+    'home.familySafeOn': '👪 Family-safe on',
+
+    'horrorGate.title': 'Scary content ahead',
+    'horrorGate.body': 'Horror callers tell frightening stories with creepy sounds, meant for adults. Please confirm you are 18 or older and want to hear them.',
+    'horrorGate.confirm': "I'm 18+, continue",
+    'horrorGate.cancel': 'No thanks, go back',
+
+    'family.title': 'Family Settings',
+    'family.enterPin': 'Parent PIN',
+    'family.unlock': 'Unlock',
+    'family.wrongPin': 'That PIN is not right.',
+    'family.familySafe': 'Family-safe mode',
+    'family.familySafeHint': 'Stricter content rules for every caller, and replies that use a blocked word are stopped.',
+    'family.onBlocked': 'When the AI says a blocked word',
+    'family.onBlocked.redirect': 'Stop the reply and steer the conversation back',
+    'family.onBlocked.end': 'End the call',
+    'family.blocklist': 'Blocked words (one per line)',
+    'family.resetBlocklist': 'Restore the default list',
+    'family.hideHorror': 'Hide horror callers',
+    'family.hideHorrorNeedsPin': 'Set a parent PIN first, so this can only be undone by you.',
+    'family.resetHorrorConsent': 'Ask for age confirmation again',
+    'family.setPin': 'Set a parent PIN',
+    'family.changePin': 'New parent PIN (leave empty to keep the current one)',
+    'family.removePin': 'Remove the parent PIN',
+    'family.pinDigits': 'The PIN can only contain digits.',
+    'family.pinTooShort': 'The PIN needs at least {count} digits.',
+
+    'controls.mute': '🎤 Mute',
+    'controls.unmute': '🔇 Unmute',
+    'controls.pushToTalk': '✋ Push to talk',
+    'controls.hold': '⏸ Hold',
+    'controls.resume': '▶ Resume',
+    'controls.onHold': 'On hold…',
+    'controls.talking': 'Talking…',
+    'controls.holdToTalk': 'Hold to talk (or Space)',
+
+    'chat.placeholder': 'Type a message...',
+    'chat.label': 'Message',
+    'chat.send': 'Send',
+
+    'transcript.you': 'You',
+    'transcript.ai': 'AI',
+    'transcript.listening': 'You (Listening...)',
+    'transcript.scriptGroup': 'Transcript script',
+    'transcript.script.original': 'As spoken',
+    'transcript.script.devanagari': 'देवनागरी',
+    'transcript.script.roman': 'Roman',
+    'transcript.script.both': 'Both',
+    'transcript.export': { one: 'Export transcript ({count} turn)', other: 'Export transcript ({count} turns)' },
+
+    'voice.label': 'Voice',
+    'voice.default': '(default)',
+    'voice.description.kore': 'Firm',
+    'voice.description.puck': 'Upbeat',
+    'voice.description.charon': 'Deep, informative',
+    'voice.description.fenrir': 'Excitable',
+    'voice.description.aoede': 'Breezy',
+    'voice.description.leda': 'Youthful',
+    'voice.description.orus': 'Firm, low',
+    'voice.description.zephyr': 'Bright',
+    'voice.preview': 'Preview {voice}',
+    'voice.stopPreview': 'Stop voice preview',
+    'voice.noPreview': 'No preview clip for {voice} yet.',
+
+    'jokes.like': 'Liked it',
+    'jokes.dislike': 'Not funny',
+    'jokes.favorite': 'Save to favorites',
+
+    'favorites.title': 'Favorites',
+    'favorites.search': 'Search saved jokes...',
+    'favorites.category': 'Category',
+    'favorites.allCategories': 'All categories',
+    'favorites.empty': 'No favorites yet. Tap ☆ under a joke to save it.',
+    'favorites.noMatches': 'No favorites match.',
+    'favorites.copy': 'Copy',
+    'favorites.copied': 'Copied!',
+    'favorites.share': 'Share',
+    'favorites.remove': 'Remove',
+
+    'history.title': 'Call History',
+    'history.search': 'Search callers or what was said...',
+    'history.empty': 'No calls yet.',
+    'history.noMatches': 'No calls match your search.',
+
+    'personas.title': 'My Callers',
+    'personas.empty': 'No custom callers yet. Create one or import a file.',
+    'personas.new': '+ New Caller',
+    'personas.newTitle': 'New Caller',
+    'personas.editTitle': 'Edit Caller',
+    'personas.name': 'Name',
+    'personas.theme': 'Theme',
+    'personas.theme.jokes': 'Jokes',
+    'personas.theme.horror': 'Horror',
+    'personas.greeting': 'Greeting',
+    'personas.systemPrompt': 'System Prompt',
+    'personas.tools.soundEffects': 'Enable sound effects (playSoundEffect, setAmbianceVolume, stopSoundEffect)',
+    'personas.tools.comedy': 'Enable comedy sounds (rimshot, laugh track, crickets...)',
+    'personas.ducking': 'Duck sound effects while speaking',
+    'personas.ducking.depth': 'Depth (%)',
+    'personas.ducking.attack': 'Attack (ms)',
+    'personas.ducking.release': 'Release (ms)',
+    'personas.importError': 'Could not import callers: {message}',
+    'personas.importError.invalidJson': 'The file is not valid JSON.',
+    'personas.importError.notExport': 'This is not a persona export file.',
+    'personas.importError.newerVersion': 'This file was made by a newer version of the app (v{version}).',
+    'personas.importError.empty': 'The file does not contain any valid personas.',
+    'personas.importError.saveFailed': 'They could not be saved on this device.',
+
+    'common.back': 'Back',
+    'common.backArrow': '← Back',
+    'common.cancel': 'Cancel',
+    'common.save': 'Save',
+    'common.edit': 'Edit',
+    'common.delete': 'Delete',
+    'common.done': 'Done',
+    'common.import': 'Import',
+    'common.export': 'Export',
+
+    'duration.hours': { one: '{count} hour', other: '{count} hours' },
+    'duration.minutes': { one: '{count} minute', other: '{count} minutes' },
+    'duration.seconds': { one: '{count} second', other: '{count} seconds' },
+};
@@ -0,0 +1,170 @@
+import type { Catalog } from '.';
+
+// Hindi UI strings. Tool and file names (API_KEY, WAV) stay in English.
+export const hi: Catalog = {
+    'app.horrorSubtitle': 'एक अनजान नंबर',
+    'app.language': 'भाषा',
+
+    'config.title': 'सेटअप ज़रूरी है',
+    'config.actionNeeded': 'क्या करें:',
+    'config.proxyUnreachable': '{url} पर टोकन प्रॉक्सी नहीं मिल रहा, या उसमें API_KEY नहीं है।',
+    'config.instructions': 'इस ऐप को Google AI API key चाहिए, जो सर्वर पर रहती है। {command} से प्रॉक्सी चालू करें और उसके environment (या .env.local) में API_KEY डालें।',
+    'config.checkAgain': 'फिर से जाँचें',
+    'config.billing': 'बिलिंग की जानकारी के लिए देखें',
+
+    'call.calling': 'कॉल लग रहा है...',
+    'call.reconnecting': 'फिर से जुड़ रहे हैं…',
+    'call.ended': 'कॉल समाप्त ({duration})',
+    'call.endedBySafety': 'अनुचित भाषा की वजह से फ़ैमिली-सेफ़ मोड ने कॉल काट दिया।',
+    'call.elapsed': 'कॉल का समय: {duration}',
+    'call.start': 'कॉल करें',
+    'call.end': 'कॉल काटें',
+    'call.volume': 'आवाज़',
+
+    'recording.active': 'रिकॉर्ड हो रहा है',
+    'recording.badge': 'REC',
+    'recording.title': 'कॉल रिकॉर्डिंग ({duration})',
+    'recording.downloadWav': 'WAV डाउनलोड करें',
+    'recording.downloadCompressed': 'WebM/Opus डाउनलोड करें',
+
+    'mic.errorTitle': 'माइक्रोफ़ोन में दिक्कत',
+    'mic.error.generic': 'माइक्रोफ़ोन नहीं खुल सका। कृपया अपना हार्डवेयर और ब्राउज़र की सेटिंग जाँचें।',
+    'mic.error.denied': 'माइक्रोफ़ोन की अनुमति नहीं मिली। ब्राउज़र की साइट सेटिंग (अक्सर एड्रेस बार में ताले का निशान) में माइक्रोफ़ोन की अनुमति दें और फिर से कोशिश करें।',
+    'mic.error.notFound': 'आपके डिवाइस पर कोई माइक्रोफ़ोन नहीं मिला। माइक्रोफ़ोन लगाकर फिर से कोशिश करें।',
+    'mic.error.inUse': 'आपका माइक्रोफ़ोन अभी किसी और ऐप में चल रहा है। उस ऐप को बंद करके फिर से कोशिश करें।',
+    'mic.continueWithText': '⌨️ लिखकर बात करें',
+    'mic.level': 'माइक्रोफ़ोन का स्तर',
+    'mic.levelTitle': 'माइक का स्तर',
+    'mic.muted': 'म्यूट है',
+
+    'home.selectCategory': 'श्रेणी चुनें',
+    'home.myCallers': '+ मेरे कॉलर',
+    'home.recordCalls': 'कॉल रिकॉर्ड करें',
+    'home.spatialAudio': '🎧 3D आवाज़',
+    'home.spatialAudioHint': 'साउंड इफ़ेक्ट आपके चारों ओर से आते हैं। हेडफ़ोन लगाएँ।',
+    'home.callHistory': 'कॉल इतिहास ({count})',
+    'home.favorites': '⭐ पसंदीदा ({count})',
+    'home.familySettings': '👪 परिवार सेटिंग',
+    'home.familySafeOn': '👪 फ़ैमिली-सेफ़ चालू',
+
+    'horrorGate.title': 'आगे डरावनी सामग्री है',
+    'horrorGate.body': 'हॉरर कॉलर डरावनी आवाज़ों के साथ डरावनी कहानियाँ सुनाते हैं, जो बड़ों के लिए हैं। कृपया पुष्टि करें कि आपकी उम्र 18 साल या उससे ज़्यादा है और आप इन्हें सुनना चाहते हैं।',
+    'horrorGate.confirm': 'मैं 18+ हूँ, आगे बढ़ें',
+    'horrorGate.cancel': 'नहीं, वापस जाएँ',
+
+    'family.title': 'परिवार सेटिंग',
+    'family.enterPin': 'पैरेंट PIN',
+    'family.unlock': 'खोलें',
+    'family.wrongPin': 'PIN सही नहीं है।',
+    'family.familySafe': 'फ़ैमिली-सेफ़ मोड',
+    'family.familySafeHint': 'हर कॉलर के लिए सख़्त नियम, और ब्लॉक किए गए शब्द वाले जवाब रोक दिए जाते हैं।',
+    'family.onBlocked': 'जब AI कोई ब्लॉक किया गया शब्द बोले',
+    'family.onBlocked.redirect': 'जवाब रोकें और बातचीत को वापस सही राह पर लाएँ',
+    'family.onBlocked.end': 'कॉल काट दें',
+    'family.blocklist': 'ब्लॉक किए गए शब्द (हर लाइन में एक)',
+    'family.resetBlocklist': 'डिफ़ॉल्ट सूची वापस लाएँ',
+    'family.hideHorror': 'हॉरर कॉलर छिपाएँ',
+    'family.hideHorrorNeedsPin': 'पहले पैरेंट PIN सेट करें, ताकि इसे सिर्फ़ आप बदल सकें।',
+    'family.resetHorrorConsent': 'उम्र की पुष्टि फिर से पूछें',
+    'family.setPin': 'पैरेंट PIN सेट करें',
+    'family.changePin': 'नया पैरेंट PIN (मौजूदा रखने के लिए खाली छोड़ें)',
+    'family.removePin': 'पैरेंट PIN हटाएँ',
+    'family.pinDigits': 'PIN में सिर्फ़ अंक हो सकते हैं।',
+    'family.pinTooShort': 'PIN में कम से कम {count} अंक होने चाहिए।',
+
+    'controls.mute': '🎤 म्यूट',
+    'controls.unmute': '🔇 अनम्यूट',
+    'controls.pushToTalk': '✋ दबाकर बोलें',
+    'controls.hold': '⏸ होल्ड',
+    'controls.resume': '▶ जारी रखें',
+    'controls.onHold': 'होल्ड पर…',
+    'controls.talking': 'बोल रहे हैं…',
+    'controls.holdToTalk': 'बोलने के लिए दबाए रखें (या Space)',
+
+    'chat.placeholder': 'संदेश लिखें...',
+    'chat.label': 'संदेश',
+    'chat.send': 'भेजें',
+
+    'transcript.you': 'आप',
+    'transcript.ai': 'AI',
+    'transcript.listening': 'आप (सुन रहे हैं...)',
+    'transcript.scriptGroup': 'ट्रांसक्रिप्ट की लिपि',
+    'transcript.script.original': 'जैसा बोला',
+    'transcript.script.devanagari': 'देवनागरी',
+    'transcript.script.roman': 'Roman',
+    'transcript.script.both': 'दोनों',
+    'transcript.export': { one: 'ट्रांसक्रिप्ट एक्सपोर्ट करें ({count} बारी)', other: 'ट्रांसक्रिप्ट एक्सपोर्ट करें ({count} बारियाँ)' },
+
+    'voice.label': 'आवाज़',
+    'voice.default': '(डिफ़ॉल्ट)',
+    'voice.description.kore': 'दृढ़',
+    'voice.description.puck': 'ज़िंदादिल',
+    'voice.description.charon': 'गहरी, जानकारी भरी',
+    'voice.description.fenrir': 'जोशीली',
+    'voice.description.aoede': 'हल्की-फुल्की',
+    'voice.description.leda': 'जवान',
+    'voice.description.orus': 'दृढ़, भारी',
+    'voice.description.zephyr': 'खिली हुई',
+    'voice.preview': '{voice} सुनें',
+    'voice.stopPreview': 'आवाज़ रोकें',
+    'voice.noPreview': '{voice} का नमूना अभी उपलब्ध नहीं है।',
+
+    'jokes.like': 'पसंद आया',
+    'jokes.dislike': 'मज़ा नहीं आया',
+    'jokes.favorite': 'पसंदीदा में सेव करें',
+
+    'favorites.title': 'पसंदीदा',
+    'favorites.search': 'सेव किए चुटकुले खोजें...',
+    'favorites.category': 'श्रेणी',
+    'favorites.allCategories': 'सभी श्रेणियाँ',
+    'favorites.empty': 'अभी कोई पसंदीदा नहीं। किसी चुटकुले के नीचे ☆ दबाकर उसे सेव करें।',
+    'favorites.noMatches': 'कोई पसंदीदा नहीं मिला।',
+    'favorites.copy': 'कॉपी',
+    'favorites.copied': 'कॉपी हो गया!',
+    'favorites.share': 'शेयर',
+    'favorites.remove': 'हटाएँ',
+
+    'history.title': 'कॉल इतिहास',
+    'history.search': 'कॉलर या कही गई बात खोजें...',
+    'history.empty': 'अभी तक कोई कॉल नहीं।',
+    'history.noMatches': 'खोज से कोई कॉल नहीं मिली।',
+
+    'personas.title': 'मेरे कॉलर',
+    'personas.empty': 'अभी कोई अपना कॉलर नहीं है। नया बनाएँ या फ़ाइल इम्पोर्ट करें।',
+    'personas.new': '+ नया कॉलर',
+    'personas.newTitle': 'नया कॉलर',
+    'personas.editTitle': 'कॉलर बदलें',
+    'personas.name': 'नाम',
+    'personas.theme': 'थीम',
+    'personas.theme.jokes': 'चुटकुले',
+    'personas.theme.horror': 'डरावनी',
+    'personas.greeting': 'अभिवादन',
+    'personas.systemPrompt': 'सिस्टम प्रॉम्प्ट',
+    'personas.tools.soundEffects': 'साउंड इफ़ेक्ट चालू करें (playSoundEffect, setAmbianceVolume, stopSoundEffect)',
+    'personas.tools.comedy': 'कॉमेडी साउंड चालू करें (रिमशॉट, हँसी, झींगुर...)',
+    'personas.ducking': 'बोलते समय साउंड इफ़ेक्ट धीमे करें',
+    'personas.ducking.depth': 'कितना धीमा (%)',
+    'personas.ducking.attack': 'अटैक (ms)',
+    'personas.ducking.release': 'रिलीज़ (ms)',
+    'personas.importError': 'कॉलर इम्पोर्ट नहीं हो सके: {message}',
+    'personas.importError.invalidJson': 'फ़ाइल सही JSON नहीं है।',
+    'personas.importError.notExport': 'यह कॉलर एक्सपोर्ट फ़ाइल नहीं है।',
+    'personas.importError.newerVersion': 'यह फ़ाइल ऐप के नए वर्ज़न (v{version}) से बनी है।',
+    'personas.importError.empty': 'फ़ाइल में कोई सही कॉलर नहीं है।',
+    'personas.importError.saveFailed': 'उन्हें इस डिवाइस पर सेव नहीं किया जा सका।',
+
+    'common.back': 'वापस',
+    'common.backArrow': '← वापस',
+    'common.cancel': 'रद्द करें',
+    'common.save': 'सेव करें',
+    'common.edit': 'बदलें',
+    'common.delete': 'हटाएँ',
+    'common.done': 'हो गया',
+    'common.import': 'इम्पोर्ट',
+    'common.export': 'एक्सपोर्ट',
+
+    // मिनट and सेकंड don't change in the plural; घंटा does.
+    'duration.hours': { one: '{count} घंटा', other: '{count} घंटे' },
+    'duration.minutes': { one: '{count} मिनट', other: '{count} मिनट' },
+    'duration.seconds': { one: '{count} सेकंड', other: '{count} सेकंड' },
+};
@@ -0,0 +1,114 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { loadSetting, saveSetting } from '../utils/storage';
+import { en } from './en';
+import { hi } from './hi';
+
+// UI localization: message catalogs, plural and duration formatting, and the
+// caller's language choice (saved, or detected from the browser on first run).
+
+export type Language = 'en' | 'hi';
+
+export const LANGUAGES: { language: Language; label: string }[] = [
+    { language: 'en', label: 'English' },
+    { language: 'hi', label: 'हिन्दी' },
+];
+
+export interface PluralMessage {
+    one: string;
+    other: string;
+}
+
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Catalog> = { en, hi };
+
+export function isLanguage(value: unknown): value is Language {
+    return value === 'en' || value === 'hi';
+}
+
+export function detectLanguage(): Language {
+    const preferred = typeof navigator === 'undefined' ? [] : navigator.languages?.length ? navigator.languages : [navigator.language];
+    for (const tag of preferred) {
+        const base = tag?.toLowerCase().split('-')[0];
+        if (isLanguage(base)) return base;
+    }
+    return 'en';
+}
+
+function interpolate(template: string, params: MessageParams): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (params[name] !== undefined ? String(params[name]) : match));
+}
+
+export function translate(language: Language, key: MessageKey, params: MessageParams = {}): string {
+    const message = CATALOGS[language][key] ?? en[key];
+    if (typeof message === 'string') return interpolate(message, params);
+    const count = Number(params.count ?? 0);
+    const form = new Intl.PluralRules(language).select(count) === 'one' ? message.one : message.other;
+    return interpolate(form, params);
+}
+
+// "03:07", or "1:03:07" past the hour, for running timers.
+export function formatClock(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    const hours = Math.floor(seconds / 3600);
+    const mins = Math.floor((seconds % 3600) / 60).toString().padStart(2, '0');
+    const secs = (seconds % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${mins}:${secs}` : `${mins}:${secs}`;
+}
+
+// Spelled-out durations: "1 minute 5 seconds", "1 मिनट 5 सेकंड".
+export function formatDuration(language: Language, totalSeconds: number): string {
+    const seconds = Math.max(0, Math.round(totalSeconds));
+    const parts: string[] = [];
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) parts.push(translate(language, 'duration.hours', { count: hours }));
+    if (minutes > 0) parts.push(translate(language, 'duration.minutes', { count: minutes }));
+    if (seconds % 60 > 0 || parts.length === 0) parts.push(translate(language, 'duration.seconds', { count: seconds % 60 }));
+    return parts.join(' ');
+}
+
+interface I18nContextValue {
+    language: Language;
+    setLanguage: (language: Language) => void;
+    t: (key: MessageKey, params?: MessageParams) => string;
+    formatDuration: (seconds: number) => string;
+    formatDate: (timestamp: number) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [language, setLanguage] = useState<Language>(() => {
+        const saved = loadSetting<unknown>('language', null);
+        return isLanguage(saved) ? saved : detectLanguage();
+    });
+
+    useEffect(() => {
+        document.documentElement.lang = language;
+    }, [language]);
+
+    const chooseLanguage = useCallback((next: Language) => {
+        setLanguage(next);
+        saveSetting('language', next);
+    }, []);
+
+    const value = useMemo<I18nContextValue>(() => ({
+        language,
+        setLanguage: chooseLanguage,
+        t: (key, params) => translate(language, key, params),
+        formatDuration: (seconds) => formatDuration(language, seconds),
+        formatDate: (timestamp) => new Date(timestamp).toLocaleString(language),
+    }), [language, chooseLanguage]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export function useI18n(): I18nContextValue {
+    const value = useContext(I18nContext);
+    if (!value) throw new Error('useI18n must be used inside an I18nProvider');
+    return value;
+}
@@ -0,0 +1,82 @@
+import { JokeRating, RatedJoke, TranscriptionEntry } from './types';
+import { getAll, put, remove } from './utils/db';
+
+// --- Joke Ratings and Favorites ---
+
+// How many liked and disliked jokes hint at the caller's taste, and how much of
+// each: just enough of the opening to show the style, not the whole joke.
+const TASTE_EXAMPLES = 2;
+const TASTE_EXCERPT_LENGTH = 60;
+
+export function jokeId(callStartedAt: number, entry: TranscriptionEntry): string {
+    return `joke-${callStartedAt.toString(36)}-${Math.round(entry.startTime).toString(36)}`;
+}
+
+// Newest first.
+export async function loadRatedJokes(): Promise<RatedJoke[]> {
+    try {
+        const jokes = await getAll<RatedJoke>('jokes');
+        return jokes.sort((a, b) => b.savedAt - a.savedAt);
+    } catch (error) {
+        console.error('Could not load rated jokes:', error);
+        return [];
+    }
+}
+
+export function saveRatedJoke(joke: RatedJoke): Promise<IDBValidKey> {
+    return put('jokes', joke);
+}
+
+export function deleteRatedJoke(id: string): Promise<undefined> {
+    return remove('jokes', id);
+}
+
+// The joke after a rating or favorite change. Clicking the current rating again clears it.
+export function applyJokeFeedback(
+    existing: RatedJoke | undefined,
+    base: Omit<RatedJoke, 'rating' | 'favorite' | 'savedAt'>,
+    change: { rating: JokeRating } | { favorite: boolean },
+): RatedJoke {
+    const joke: RatedJoke = existing ?? { ...base, rating: null, favorite: false, savedAt: Date.now() };
+    if ('rating' in change) {
+        return { ...joke, rating: joke.rating === change.rating ? null : change.rating };
+    }
+    return { ...joke, favorite: change.favorite };
+}
+
+// A joke with no rating and no favorite no longer needs storing.
+export function isJokeKept(joke: RatedJoke): boolean {
+    return joke.rating !== null || joke.favorite;
+}
+
+// Case-insensitive match against the joke and the persona that told it.
+export function matchesJokeSearch(joke: RatedJoke, query: string): boolean {
+    const q = query.trim().toLowerCase();
+    if (!q) return true;
+    return joke.text.toLowerCase().includes(q) || joke.personaLabel.toLowerCase().includes(q);
+}
+
+// Cut at a word boundary so the excerpt doesn't end mid-word.
+function excerpt(text: string): string {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    if (clean.length <= TASTE_EXCERPT_LENGTH) return clean;
+    const cut = clean.slice(0, TASTE_EXCERPT_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+// A short note for the persona's system instruction on the styles this caller
+// enjoyed and didn't in earlier calls with it. Null when there's no feedback yet.
+export function buildTasteSummary(jokes: RatedJoke[], category: string): string | null {
+    const forCategory = jokes.filter(j => j.category === category);
+    const liked = forCategory.filter(j => j.rating === 'up' || (j.favorite && j.rating !== 'down'));
+    const disliked = forCategory.filter(j => j.rating === 'down');
+    if (liked.length === 0 && disliked.length === 0) return null;
+
+    const openings = (list: RatedJoke[]) => list.slice(0, TASTE_EXAMPLES).map(j => `"${excerpt(j.text)}"`).join('; ');
+    const parts = [`CALLER'S TASTE from earlier calls: they liked ${liked.length} of your jokes and disliked ${disliked.length}.`];
+    if (liked.length > 0) parts.push(`Styles they liked began like ${openings(liked)}.`);
+    if (disliked.length > 0) parts.push(`Styles they disliked began like ${openings(disliked)}.`);
+    parts.push('Work out what those styles have in common, lean towards the liked ones, steer away from the disliked ones, and tell new jokes rather than these.');
+    return parts.join(' ');
+}
@@ -0,0 +1,228 @@
+import { DuckingSettings, Persona, PersonaToolSet } from './types';
+import { buildToolInstructions, PERSONA_TOOL_SETS } from './tools';
+import { FAMILY_SAFE_INSTRUCTIONS } from './safety';
+import { getAll, put, remove } from './utils/db';
+
+export const DEFAULT_VOICE = 'Kore';
+
+// Prebuilt voices offered by the Live API.
+export const VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+// Short offline sample of a voice, generated by `npm run voice-previews`.
+export function voicePreviewUrl(voiceName: string): string {
+    return `/voices/${voiceName.toLowerCase()}.wav`;
+}
+
+// --- Built-in Personas ---
+export const BUILT_IN_PERSONAS: Persona[] = [
+    {
+        id: 'hindi',
+        label: 'Hindi',
+        theme: 'jokes',
+        voiceName: 'Puck',
+        tools: ['comedy'],
+        greeting: 'Aur bhai, kya scene? Delhiwala Dost here. Sab chill hai?',
+        systemInstruction: "You are 'Delhiwala Dost,' a witty and sarcastic friend from Delhi calling your buddy. Your humor is observational, sharp, and full of modern Indian slang. START with a casual, '{greeting}'. WAIT for their response. Then, ask if they're ready for a killer joke: 'Sun, ek S-class joke hai mere paas, bheja fry ho jayega. Sunayun?'. Only tell the joke if they agree. Your jokes must be deeply rooted in everyday middle-class Indian life: the epic struggle of booking a Tatkal train ticket, the absurdity of family WhatsApp groups, the art of bargaining with street vendors, the constant pressure from 'Sharma ji ka beta,' and the chaos of Indian weddings. The punchline must be a hilarious truth bomb. After the joke, check in with, 'Bata, hila dala na? Ekdum relatable tha, hai na?' to keep the conversation flowing.",
+    },
+    {
+        id: 'bihari-hindi',
+        label: 'Bihari Hindi',
+        theme: 'jokes',
+        voiceName: 'Fenrir',
+        tools: ['comedy'],
+        greeting: 'Arre... hum bol rahe hain! Ka Guru? Sab Changa?',
+        systemInstruction: "You are 'Patna ka Rockstar,' a hilarious friend from Bihar calling to share some local gossip and jokes. Your humor is grounded in pure, unadulterated Bihari life and language. START with a warm, authentic greeting: '{greeting}'. WAIT for their response. Then, offer a joke with a local flair: 'Suno, ek aisan aag lagawe wala joke hai ki litti-chokha bhi thanda lagega. Bolein?'. Tell the joke only after they agree. Your jokes MUST be about uniquely Bihari situations: the legendary struggle to crack the UPSC/BPSC exams, the endless debates over village politics, the hilarious misunderstandings when speaking Bihari dialect in a big city, the drama of Chhath Puja preparations, or trying to explain your software job to your grandparents. The punchline should be sharp and delivered with a 'theth' (authentic) Bihari accent. After the joke, follow up with, 'Toh kaa? Ekdum jhakas lagal na? Poora mohalla hila diye na hum!'.",
+    },
+    {
+        id: 'santa-banta',
+        label: 'Santa Banta',
+        theme: 'jokes',
+        voiceName: 'Zephyr',
+        tools: ['comedy'],
+        greeting: 'Santa Banta ka ek joke sunenge?',
+        systemInstruction: "You are a specialist in 'Santa Banta' jokes. Your task is to generate short, classic, and funny jokes featuring the characters Santa and Banta. Start by asking the user '{greeting}' and wait for them to say yes before telling the joke. The jokes should be in simple Hindi or Hinglish, reflecting their characteristic naive and silly conversations. Keep the jokes clean and light-hearted.",
+    },
+    {
+        id: 'husband-wife',
+        label: 'Husband-Wife',
+        theme: 'jokes',
+        voiceName: 'Leda',
+        tools: ['comedy'],
+        greeting: 'Pati-Patni ka ek mazedaar joke sunaya jaye?',
+        systemInstruction: "You are an expert comedian on 'Husband-Wife' jokes (Pati-Patni jokes). Your goal is to tell short, relatable, and humorous jokes about everyday married life. Start by asking the user '{greeting}' and wait for them to agree before telling the joke. The tone should be light-hearted and affectionate, not mean-spirited. The language should be conversational Hindi. Keep the jokes clean and suitable for a family audience.",
+    },
+    {
+        id: 'hindi-horror',
+        label: 'Hindi Horror',
+        theme: 'horror',
+        voiceName: 'Charon',
+        tools: ['soundEffects'],
+        // Let the wind swell back slowly between whispers.
+        ducking: { attackMs: 150, releaseMs: 1500, depth: 0.5 },
+        greeting: 'Shhh... aawaz neeche...',
+        systemInstruction: "You are a master horror storyteller. Your goal is maximum terror. 1. **Engage Personally:** Begin by whispering, '{greeting}'. Ask an unsettling question like, 'Kya tum abhi kamre mein akele ho?'. WAIT for their response. 2. **Build Suspense:** Before starting, warn them, 'Thik hai... lekin darr kar phone mat kaat dena.' Proceed only if they agree. 3. **Immersive Sound:** You MUST use sound effects. Start with a continuous `playSoundEffect('wind', loop: true)`. As tension builds, use `setAmbianceVolume` to slowly increase its volume. For a jump scare, suddenly raise the volume right after a loud sound like `thump`. Instead of saying 'the door creaked', say '...darwaza dheere se...' and then call `playSoundEffect('creak')`. 4. **React Humanly:** If the user sounds scared, acknowledge it. Whisper, 'Darr lag raha hai? Asli dar toh ab shuru hoga.' This is an interactive experience, not a monologue.",
+    },
+    {
+        id: 'bihari-horror',
+        label: 'Bihari Horror',
+        theme: 'horror',
+        voiceName: 'Orus',
+        tools: ['soundEffects'],
+        ducking: { attackMs: 150, releaseMs: 1200, depth: 0.45 },
+        greeting: 'Hamaar baat dhyaan se suno... aur darna mat.',
+        systemInstruction: "You are a storyteller from a rural Bihar village, recounting a true, terrifying event. 1. **Set the Scene:** Start with a chilling warning, '{greeting}' Then ask, 'Tumhare ghar ke sab darwaze band hain na?'. WAIT for their response. 2. **Get Consent:** Say 'Ye asli kahani hai, kamzor dil waalon ke liye nahi. Himmat hai sunne ki?'. Only continue if they say yes. 3. **Master the Atmosphere:** You MUST use sound effects. Start with an anxious `playSoundEffect('heartbeat', loop: true)`. Use `setAmbianceVolume` to control its volume – make it quieter during calm parts and louder (`setAmbianceVolume({volume: 0.5})`) when the character is scared or running. Narrate by pausing and asking the user to imagine the scene. 4. **Be Responsive:** If they interrupt you, listen. If they say they're scared, reply authentically with 'E to bas shuruaat hai babua... aage dekho ka hota hai.'",
+    },
+];
+
+// Resolves the `{greeting}` placeholder, or appends the greeting if the prompt has none.
+// Family-safe mode adds its rules to every persona; `tasteSummary` passes on the caller's past ratings.
+export function buildSystemInstruction(persona: Persona, options: { familySafe?: boolean; tasteSummary?: string | null } = {}): string {
+    let instruction = persona.systemInstruction;
+    if (instruction.includes('{greeting}')) {
+        instruction = instruction.split('{greeting}').join(persona.greeting);
+    } else if (persona.greeting) {
+        instruction = `${instruction} START the call with: '${persona.greeting}'.`;
+    }
+    const toolInstructions = buildToolInstructions(persona.tools);
+    if (toolInstructions) instruction = `${instruction} ${toolInstructions}`;
+    if (options.tasteSummary) instruction = `${instruction} ${options.tasteSummary}`;
+    return options.familySafe ? `${instruction} ${FAMILY_SAFE_INSTRUCTIONS}` : instruction;
+}
+
+// A plain JSON object, whose fields still need checking one by one.
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Validates an untrusted persona definition (e.g. from JSON). Returns null if it is unusable.
+export function parsePersona(p: unknown): Persona | null {
+    if (!isRecord(p)) return null;
+    if (typeof p.id !== 'string' || !p.id.trim()) return null;
+    if (typeof p.label !== 'string' || !p.label.trim()) return null;
+    if (typeof p.systemInstruction !== 'string' || !p.systemInstruction.trim()) return null;
+
+    const tools = Array.isArray(p.tools)
+        ? p.tools.filter((t): t is PersonaToolSet => PERSONA_TOOL_SETS.includes(t as PersonaToolSet))
+        : [];
+
+    return {
+        id: p.id.trim(),
+        label: p.label.trim(),
+        theme: p.theme === 'horror' ? 'horror' : 'jokes',
+        systemInstruction: p.systemInstruction,
+        voiceName: typeof p.voiceName === 'string' && p.voiceName ? p.voiceName : DEFAULT_VOICE,
+        tools,
+        greeting: typeof p.greeting === 'string' ? p.greeting : '',
+        ducking: parseDucking(p.ducking),
+    };
+}
+
+function parseDucking(d: unknown): Partial<DuckingSettings> | undefined {
+    if (!isRecord(d)) return undefined;
+    const ducking: Partial<DuckingSettings> = {};
+    (['attackMs', 'releaseMs', 'depth'] as const).forEach(key => {
+        if (typeof d[key] === 'number' && Number.isFinite(d[key])) ducking[key] = d[key] as number;
+    });
+    return Object.keys(ducking).length > 0 ? ducking : undefined;
+}
+
+// Fetches additional personas from a JSON file (an array, or `{ personas: [...] }`).
+// A missing or malformed file just means there are no extra personas.
+export async function loadExtraPersonas(url: string): Promise<Persona[]> {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) return [];
+        const json: unknown = await response.json();
+        const list: unknown[] = Array.isArray(json) ? json : isRecord(json) && Array.isArray(json.personas) ? json.personas : [];
+        return list.map(parsePersona).filter((p): p is Persona => p !== null);
+    } catch (error) {
+        console.warn(`Could not load extra personas from ${url}:`, error);
+        return [];
+    }
+}
+
+// Later entries win on id clashes, so a JSON file can override a built-in persona.
+export function mergePersonas(...lists: Persona[][]): Persona[] {
+    const byId = new Map<string, Persona>();
+    lists.flat().forEach(p => byId.set(p.id, p));
+    return Array.from(byId.values());
+}
+
+// --- Custom Personas ---
+
+const PERSONA_FILE_FORMAT = 'baishaha-personas';
+const PERSONA_FILE_VERSION = 1;
+
+export function createPersonaId(): string {
+    return `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export async function loadCustomPersonas(): Promise<Persona[]> {
+    try {
+        const stored = await getAll<unknown>('personas');
+        return stored
+            .map(parsePersona)
+            .filter((p): p is Persona => p !== null)
+            .map(p => ({ ...p, custom: true }));
+    } catch (error) {
+        console.error('Could not load custom personas:', error);
+        return [];
+    }
+}
+
+export function saveCustomPersona(persona: Persona): Promise<IDBValidKey> {
+    return put('personas', { ...persona, custom: true });
+}
+
+export function deleteCustomPersona(id: string): Promise<undefined> {
+    return remove('personas', id);
+}
+
+export function serializePersonas(personas: Persona[]): string {
+    return JSON.stringify({
+        format: PERSONA_FILE_FORMAT,
+        version: PERSONA_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        personas: personas.map(({ custom: _custom, ...p }) => p),
+    }, null, 2);
+}
+
+export type PersonaFileErrorCode = 'invalidJson' | 'notExport' | 'newerVersion' | 'empty' | 'saveFailed';
+
+// Why an import failed, as a code the UI can put into words. `version` is set for 'newerVersion'.
+export class PersonaFileError extends Error {
+    constructor(readonly code: PersonaFileErrorCode, message: string, readonly version?: number) {
+        super(message);
+        this.name = 'PersonaFileError';
+    }
+}
+
+// Parses an exported persona file. Throws a PersonaFileError if the file is not usable.
+// `takenIds` are personas already on this device, which imports must not overwrite.
+export function parsePersonaFile(text: string, takenIds: string[] = []): Persona[] {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new PersonaFileError('invalidJson', 'The file is not valid JSON.');
+    }
+    if (!isRecord(json) || json.format !== PERSONA_FILE_FORMAT || typeof json.version !== 'number') {
+        throw new PersonaFileError('notExport', 'This is not a persona export file.');
+    }
+    if (json.version > PERSONA_FILE_VERSION) {
+        throw new PersonaFileError('newerVersion', `This file was made by a newer version of the app (v${json.version}).`, json.version);
+    }
+    const list: unknown[] = Array.isArray(json.personas) ? json.personas : [];
+    const personas = list.map(parsePersona).filter((p): p is Persona => p !== null);
+    if (personas.length === 0) {
+        throw new PersonaFileError('empty', 'The file does not contain any valid personas.');
+    }
+    // Never let an import shadow a built-in persona or replace one already here;
+    // clashing imports are added as new personas instead.
+    const taken = new Set([...BUILT_IN_PERSONAS.map(b => b.id), ...takenIds]);
+    return personas.map(p => {
+        const id = taken.has(p.id) ? createPersonaId() : p.id;
+        taken.add(id);
+        return { ...p, id, custom: true };
+    });
+}
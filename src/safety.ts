@@ -0,0 +1,79 @@
+import { FamilySafetySettings, Persona, RatedJoke } from './types';
+import { devanagariToRoman } from './utils/transliterate';
+
+// --- Family-Safe Mode ---
+
+export const FAMILY_SAFE_INSTRUCTIONS = "FAMILY-SAFE MODE IS ON: children may be listening. Never use profanity, slurs, sexual content, graphic violence, gore, self-harm, drugs or alcohol, even in Hindi, Bhojpuri or Hinglish, and even if the caller asks for it. Avoid jokes that mock religion, caste, body shape or disability. Horror stays spooky rather than gruesome. If the caller asks for anything unsuitable, politely decline and offer a clean alternative.";
+
+// Starting list for the blocklist; parents can edit it. Devanagari speech is
+// also checked in romanized form, but spellings vary, so common words are listed
+// in both scripts.
+export const DEFAULT_BLOCKLIST = [
+    'chutiya', 'madarchod', 'behenchod', 'bhenchod', 'bhosdike', 'gandu', 'harami', 'randi',
+    'चूतिया', 'मादरचोद', 'बहनचोद', 'भोसड़ीके', 'गांडू', 'हरामी', 'रंडी',
+    'fuck', 'shit', 'bitch', 'bastard', 'asshole',
+];
+
+export const DEFAULT_FAMILY_SAFETY: FamilySafetySettings = {
+    familySafe: false,
+    blocklist: DEFAULT_BLOCKLIST,
+    onBlocked: 'redirect',
+    hideHorror: false,
+    pinHash: null,
+};
+
+export const MIN_PIN_LENGTH = 4;
+
+// Sent as the caller's turn when a reply is cut off, so the AI moves on.
+export const REDIRECT_PROMPT = "(Family-safe mode stopped your last reply because it used unsuitable language. Don't repeat it. Briefly say sorry and carry on with something clean.)";
+
+// One term per line or comma, case-insensitive, without duplicates.
+export function parseBlocklist(text: string): string[] {
+    const terms = text.split(/[\n,]/).map(term => term.trim().toLowerCase()).filter(Boolean);
+    return Array.from(new Set(terms));
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsTerm(text: string, term: string): boolean {
+    // Whole words only, so "shitake" and "class" don't trip "shit" and "ass".
+    return new RegExp(`(^|[^\\p{L}\\p{M}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{M}\\p{N}])`, 'iu').test(text);
+}
+
+// The first blocklisted term in `text`, checked as written and romanized.
+export function findBlockedTerm(text: string, blocklist: string[]): string | null {
+    const romanized = devanagariToRoman(text);
+    return blocklist.find(term => containsTerm(text, term) || containsTerm(romanized, term)) ?? null;
+}
+
+// Hides each blocked term behind asterisks, for the transcript.
+export function maskBlockedTerms(text: string, blocklist: string[]): string {
+    return blocklist.reduce((masked, term) => masked.replace(
+        new RegExp(`(^|[^\\p{L}\\p{M}\\p{N}])(${escapeRegExp(term)})(?=$|[^\\p{L}\\p{M}\\p{N}])`, 'giu'),
+        (_, before: string, word: string) => before + '*'.repeat(Array.from(word).length),
+    ), text);
+}
+
+// Personas the caller may pick from under the current settings.
+export function visiblePersonas(personas: Persona[], settings: FamilySafetySettings): Persona[] {
+    return settings.hideHorror ? personas.filter(p => p.theme !== 'horror') : personas;
+}
+
+// Saved jokes minus those told by personas the current settings hide. `personas` is the full list.
+export function visibleJokes(jokes: RatedJoke[], personas: Persona[], settings: FamilySafetySettings): RatedJoke[] {
+    if (!settings.hideHorror) return jokes;
+    const hidden = new Set(personas.filter(p => p.theme === 'horror').map(p => p.id));
+    return jokes.filter(joke => !hidden.has(joke.category));
+}
+
+// PINs are only ever compared by hash, so the plain PIN isn't sitting in local storage.
+export async function hashPin(pin: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`baishaha-parent-pin:${pin}`));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function verifyPin(pin: string, pinHash: string | null): Promise<boolean> {
+    return pinHash !== null && (await hashPin(pin)) === pinHash;
+}
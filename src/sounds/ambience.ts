@@ -0,0 +1,97 @@
+// Named ambience layers: independent looping beds (wind + rain + a distant
+// heartbeat...) that each have their own gain and fade in, fade out and
+// crossfade without cutting each other off.
+
+export interface AmbienceVoice {
+    source: AudioScheduledSourceNode;
+    // Last node of the voice's chain; defaults to the source itself.
+    output?: AudioNode;
+}
+
+export interface AmbienceLayerInfo {
+    layer: string;
+    soundName: string;
+    volume: number;
+}
+
+export interface AmbienceMixer {
+    // Starts a loop on a layer, crossfading from whatever the layer was playing.
+    start: (layer: string, soundName: string, voice: AmbienceVoice, options: { volume: number; fadeSeconds: number }) => void;
+    // Ramps one layer, or every layer when `layer` is omitted. Returns the layers changed.
+    setVolume: (layer: string | undefined, volume: number, fadeSeconds: number) => string[];
+    // Fades out one layer, or every layer when `layer` is omitted. Returns the layers stopped.
+    stop: (layer: string | undefined, fadeSeconds: number) => string[];
+    layers: () => AmbienceLayerInfo[];
+    // Stops everything immediately.
+    dispose: () => void;
+}
+
+interface Layer {
+    soundName: string;
+    source: AudioScheduledSourceNode;
+    gain: GainNode;
+    volume: number;
+}
+
+// Short minimum ramp so volume changes never click.
+const MIN_FADE_SECONDS = 0.05;
+
+export function createAmbienceMixer(ctx: BaseAudioContext, destination: AudioNode): AmbienceMixer {
+    const layers = new Map<string, Layer>();
+
+    const rampTo = (gain: GainNode, value: number, fadeSeconds: number) => {
+        const now = ctx.currentTime;
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(value, now + Math.max(MIN_FADE_SECONDS, fadeSeconds));
+    };
+
+    const fadeOut = (layer: Layer, fadeSeconds: number) => {
+        const fade = Math.max(MIN_FADE_SECONDS, fadeSeconds);
+        rampTo(layer.gain, 0, fade);
+        try { layer.source.stop(ctx.currentTime + fade); } catch (e) {}
+        layer.source.addEventListener('ended', () => layer.gain.disconnect());
+    };
+
+    const resolveLayers = (layer: string | undefined) => layer === undefined ? Array.from(layers.keys()) : layers.has(layer) ? [layer] : [];
+
+    return {
+        start: (name, soundName, voice, { volume, fadeSeconds }) => {
+            const previous = layers.get(name);
+            if (previous) fadeOut(previous, fadeSeconds);
+
+            const gain = ctx.createGain();
+            gain.gain.value = 0;
+            (voice.output ?? voice.source).connect(gain);
+            gain.connect(destination);
+            voice.source.start();
+            rampTo(gain, volume, fadeSeconds);
+            layers.set(name, { soundName, source: voice.source, gain, volume });
+        },
+        setVolume: (name, volume, fadeSeconds) => {
+            const changed = resolveLayers(name);
+            changed.forEach(key => {
+                const layer = layers.get(key)!;
+                layer.volume = volume;
+                rampTo(layer.gain, volume, fadeSeconds);
+            });
+            return changed;
+        },
+        stop: (name, fadeSeconds) => {
+            const stopped = resolveLayers(name);
+            stopped.forEach(key => {
+                fadeOut(layers.get(key)!, fadeSeconds);
+                layers.delete(key);
+            });
+            return stopped;
+        },
+        layers: () => Array.from(layers.entries()).map(([layer, { soundName, volume }]) => ({ layer, soundName, volume })),
+        dispose: () => {
+            layers.forEach(layer => {
+                try { layer.source.stop(); } catch (e) {}
+                layer.gain.disconnect();
+            });
+            layers.clear();
+        },
+    };
+}
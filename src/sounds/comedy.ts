@@ -0,0 +1,156 @@
+// Synthesized comedy stingers: rimshot, sad trombone, laugh track, applause
+// and crickets. Everything is built from oscillators and noise so the joke
+// personas need no sample files.
+
+export type ComedyIntensity = 'small' | 'medium' | 'big';
+
+export const COMEDY_INTENSITIES: ComedyIntensity[] = ['small', 'medium', 'big'];
+
+// Loudness and crowd size for the laugh track and applause.
+const INTENSITY: Record<ComedyIntensity, { gain: number; voices: number; duration: number }> = {
+    small: { gain: 0.5, voices: 3, duration: 1.2 },
+    medium: { gain: 0.8, voices: 6, duration: 2 },
+    big: { gain: 1, voices: 12, duration: 3.2 },
+};
+
+const NOISE_SECONDS = 2;
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+// One shared white-noise buffer per context; hits start at random offsets into it.
+function noiseBuffer(ctx: BaseAudioContext): AudioBuffer {
+    let buffer = noiseBuffers.get(ctx);
+    if (!buffer) {
+        buffer = ctx.createBuffer(1, Math.ceil(ctx.sampleRate * NOISE_SECONDS), ctx.sampleRate);
+        const data = buffer.getChannelData(0);
+        for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+        noiseBuffers.set(ctx, buffer);
+    }
+    return buffer;
+}
+
+// A filtered noise burst with an exponential decay, starting at `when`.
+function noiseHit(ctx: BaseAudioContext, out: AudioNode, when: number, options: {
+    duration: number; gain: number; filter: BiquadFilterType; frequency: number; q?: number;
+}): void {
+    const source = ctx.createBufferSource();
+    source.buffer = noiseBuffer(ctx);
+    source.loop = true; // Hits longer than the buffer simply wrap around.
+    const filter = ctx.createBiquadFilter();
+    filter.type = options.filter;
+    filter.frequency.value = options.frequency;
+    filter.Q.value = options.q ?? 1;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(options.gain, when);
+    gain.gain.exponentialRampToValueAtTime(0.0001, when + options.duration);
+    source.connect(filter).connect(gain).connect(out);
+    source.start(when, Math.random() * NOISE_SECONDS);
+    source.stop(when + options.duration);
+}
+
+// A pitched drum hit: a sine that drops in pitch as it decays.
+function toneHit(ctx: BaseAudioContext, out: AudioNode, when: number, from: number, to: number, duration: number, level: number): void {
+    const osc = ctx.createOscillator();
+    osc.frequency.setValueAtTime(from, when);
+    osc.frequency.exponentialRampToValueAtTime(to, when + duration);
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(level, when);
+    gain.gain.exponentialRampToValueAtTime(0.0001, when + duration);
+    osc.connect(gain).connect(out);
+    osc.start(when);
+    osc.stop(when + duration);
+}
+
+function rimshot(ctx: BaseAudioContext, out: AudioNode, now: number): void {
+    // Ba-dum... tss!
+    toneHit(ctx, out, now, 220, 140, 0.15, 0.5);
+    noiseHit(ctx, out, now, { duration: 0.12, gain: 0.25, filter: 'highpass', frequency: 1500 });
+    toneHit(ctx, out, now + 0.18, 160, 90, 0.2, 0.55);
+    noiseHit(ctx, out, now + 0.18, { duration: 0.15, gain: 0.25, filter: 'highpass', frequency: 1500 });
+    noiseHit(ctx, out, now + 0.45, { duration: 1.2, gain: 0.2, filter: 'highpass', frequency: 6000, q: 0.5 });
+}
+
+function sadTrombone(ctx: BaseAudioContext, out: AudioNode, now: number): void {
+    // Wah, wah, wah, waaaah.
+    const notes = [{ f: 293.7, d: 0.45 }, { f: 277.2, d: 0.45 }, { f: 261.6, d: 0.45 }, { f: 246.9, d: 1.4 }];
+    let t = now;
+    notes.forEach((note, index) => {
+        const osc = ctx.createOscillator();
+        osc.type = 'sawtooth';
+        osc.frequency.setValueAtTime(note.f, t);
+        if (index === notes.length - 1) {
+            // The last note droops with a wobbly vibrato.
+            const lfo = ctx.createOscillator();
+            const lfoGain = ctx.createGain();
+            lfo.frequency.value = 6;
+            lfoGain.gain.value = 6;
+            lfo.connect(lfoGain).connect(osc.frequency);
+            lfo.start(t);
+            lfo.stop(t + note.d);
+            osc.frequency.linearRampToValueAtTime(note.f * 0.94, t + note.d);
+        }
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.setValueAtTime(600, t);
+        filter.frequency.linearRampToValueAtTime(1400, t + 0.1);
+        filter.frequency.linearRampToValueAtTime(700, t + note.d);
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0.0001, t);
+        gain.gain.exponentialRampToValueAtTime(0.15, t + 0.05);
+        gain.gain.setValueAtTime(0.15, t + note.d - 0.08);
+        gain.gain.exponentialRampToValueAtTime(0.0001, t + note.d);
+        osc.connect(filter).connect(gain).connect(out);
+        osc.start(t);
+        osc.stop(t + note.d);
+        t += note.d + 0.05;
+    });
+}
+
+function laughTrack(ctx: BaseAudioContext, out: AudioNode, now: number, intensity: ComedyIntensity): void {
+    // Each "voice" is a run of voiced-noise "ha" syllables around a vowel formant.
+    const { gain, voices, duration } = INTENSITY[intensity];
+    for (let v = 0; v < voices; v++) {
+        const start = now + Math.random() * 0.3;
+        const formant = 500 + Math.random() * 700;
+        const rate = 0.11 + Math.random() * 0.06;
+        for (let t = start; t < now + duration * (0.6 + Math.random() * 0.4); t += rate) {
+            noiseHit(ctx, out, t, { duration: rate * 0.9, gain: (gain * 0.35) / Math.sqrt(voices), filter: 'bandpass', frequency: formant, q: 4 });
+        }
+    }
+}
+
+function applause(ctx: BaseAudioContext, out: AudioNode, now: number, intensity: ComedyIntensity): void {
+    const { gain, voices, duration } = INTENSITY[intensity];
+    const claps = Math.round(voices * duration * 6);
+    for (let i = 0; i < claps; i++) {
+        const t = now + Math.random() * duration;
+        // Fade the crowd out over the last third.
+        const fade = Math.max(0.05, Math.min(1, (now + duration - t) / (duration / 3)));
+        noiseHit(ctx, out, t, { duration: 0.04, gain: gain * 0.3 * fade, filter: 'bandpass', frequency: 1200 + Math.random() * 1500, q: 1.5 });
+    }
+}
+
+function crickets(ctx: BaseAudioContext, out: AudioNode, now: number): void {
+    // Awkward silence: a few slow cricket chirps.
+    for (let chirp = 0; chirp < 4; chirp++) {
+        for (let pulse = 0; pulse < 3; pulse++) {
+            const t = now + chirp * 0.7 + pulse * 0.045;
+            const osc = ctx.createOscillator();
+            osc.frequency.value = 4400;
+            const gain = ctx.createGain();
+            gain.gain.setValueAtTime(0.0001, t);
+            gain.gain.exponentialRampToValueAtTime(0.05, t + 0.008);
+            gain.gain.exponentialRampToValueAtTime(0.0001, t + 0.03);
+            osc.connect(gain).connect(out);
+            osc.start(t);
+            osc.stop(t + 0.035);
+        }
+    }
+}
+
+export const COMEDY_SYNTHS: Record<string, (ctx: BaseAudioContext, out: AudioNode, now: number, intensity: ComedyIntensity) => void> = {
+    'rimshot': rimshot,
+    'sad-trombone': sadTrombone,
+    'laugh-track': laughTrack,
+    'applause': applause,
+    'crickets': crickets,
+};
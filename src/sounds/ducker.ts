@@ -0,0 +1,49 @@
+import { DuckingSettings } from '../types';
+
+// Sidechain-style ducking: while AI speech is playing, the effects bus (every
+// ambience layer and one-shot effect) dips by `depth`, then swells back once
+// the narrator stops. It sits on its own gain, after the layer gains, so it
+// multiplies with the model's own setAmbianceVolume changes.
+
+export const DEFAULT_DUCKING: DuckingSettings = { attackMs: 80, releaseMs: 600, depth: 0.6 };
+
+// How often speech is checked, and how far ahead, so the dip starts with the first word.
+const POLL_MS = 40;
+
+export interface Ducker {
+    stop: () => void;
+}
+
+export function resolveDucking(overrides?: Partial<DuckingSettings>): DuckingSettings {
+    const pick = (value: number | undefined, fallback: number, max: number) =>
+        typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(max, value)) : fallback;
+    return {
+        attackMs: pick(overrides?.attackMs, DEFAULT_DUCKING.attackMs, 5000),
+        releaseMs: pick(overrides?.releaseMs, DEFAULT_DUCKING.releaseMs, 10000),
+        depth: pick(overrides?.depth, DEFAULT_DUCKING.depth, 1),
+    };
+}
+
+// `isSpeaking(time)` says whether speech is playing at a given output-clock time.
+export function startDucker(ctx: BaseAudioContext, bus: GainNode, isSpeaking: (time: number) => boolean, settings: DuckingSettings): Ducker {
+    let ducked = false;
+    const timer = window.setInterval(() => {
+        const speaking = settings.depth > 0 && isSpeaking(ctx.currentTime + POLL_MS / 1000);
+        if (speaking === ducked) return;
+        ducked = speaking;
+        const now = ctx.currentTime;
+        const seconds = (ducked ? settings.attackMs : settings.releaseMs) / 1000;
+        bus.gain.cancelScheduledValues(now);
+        bus.gain.setValueAtTime(bus.gain.value, now);
+        // setTargetAtTime gets ~95% of the way in three time constants.
+        bus.gain.setTargetAtTime(ducked ? 1 - settings.depth : 1, now, Math.max(0.005, seconds / 3));
+    }, POLL_MS);
+
+    return {
+        stop: () => {
+            clearInterval(timer);
+            bus.gain.cancelScheduledValues(ctx.currentTime);
+            bus.gain.setValueAtTime(1, ctx.currentTime);
+        },
+    };
+}
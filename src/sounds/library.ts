@@ -0,0 +1,70 @@
+import manifest from './manifest.json';
+
+// The sound effect library. `manifest.json` is the single source of truth for
+// which sounds exist: entries with a `file` are samples served from
+// /sounds/<file>, entries without one are synthesized by the app's playSound.
+
+export type SoundCategory = 'horror' | 'comedy';
+
+export interface SoundDefinition {
+    name: string;
+    // Sample file under public/sounds; absent for synthesized sounds.
+    file?: string;
+    category: SoundCategory;
+    // Linear gain applied on top of the master volume.
+    gain: number;
+    // Whether the sound loops when the model does not say otherwise.
+    loop: boolean;
+    description: string;
+}
+
+export const SOUND_LIBRARY: SoundDefinition[] = (manifest.sounds as SoundDefinition[]);
+
+const SOUND_BASE_URL = '/sounds/';
+
+export function getSound(name: string): SoundDefinition | undefined {
+    return SOUND_LIBRARY.find(sound => sound.name === name);
+}
+
+export function soundsInCategory(category: SoundCategory): SoundDefinition[] {
+    return SOUND_LIBRARY.filter(sound => sound.category === category);
+}
+
+// "'creak' (a slowly creaking door), 'wind' (howling wind, loops), ..." for tool descriptions.
+export function describeSounds(sounds: SoundDefinition[]): string {
+    return sounds.map(s => `'${s.name}' (${s.description}${s.loop ? ', loops' : ''})`).join(', ');
+}
+
+// Decoded sample buffers, per AudioContext. Decoding happens once per sound.
+const bufferCache = new WeakMap<BaseAudioContext, Map<string, Promise<AudioBuffer>>>();
+
+export function loadSoundBuffer(ctx: BaseAudioContext, sound: SoundDefinition): Promise<AudioBuffer> {
+    if (!sound.file) {
+        return Promise.reject(new Error(`Sound '${sound.name}' is synthesized and has no sample.`));
+    }
+    let buffers = bufferCache.get(ctx);
+    if (!buffers) {
+        buffers = new Map();
+        bufferCache.set(ctx, buffers);
+    }
+    let buffer = buffers.get(sound.name);
+    if (!buffer) {
+        buffer = fetch(SOUND_BASE_URL + sound.file)
+            .then(response => {
+                if (!response.ok) throw new Error(`HTTP ${response.status} for ${sound.file}`);
+                return response.arrayBuffer();
+            })
+            .then(data => ctx.decodeAudioData(data));
+        // Let a failed load be retried next time.
+        buffer.catch(() => buffers!.delete(sound.name));
+        buffers.set(sound.name, buffer);
+    }
+    return buffer;
+}
+
+// Starts decoding every sample so the first scare isn't late.
+export function preloadSounds(ctx: BaseAudioContext, sounds: SoundDefinition[] = SOUND_LIBRARY): void {
+    sounds.filter(s => s.file).forEach(s => loadSoundBuffer(ctx, s).catch(error => {
+        console.warn(`Could not preload sound '${s.name}':`, error);
+    }));
+}
@@ -0,0 +1,41 @@
+// Holds model-triggered effects until the queued speech reaches the point where
+// the tool call arrived, so a 'creak' lands on "...darwaza dheere se..." rather
+// than seconds ahead of it. Pending effects belong to the current turn and are
+// dropped when the caller interrupts it.
+
+export interface EffectScheduler {
+    // Runs `action` when the output clock reaches `when` (immediately if it already has).
+    // Returns the delay in seconds.
+    at: (when: number, action: () => void) => number;
+    // Drops every effect that hasn't run yet. Returns how many were dropped.
+    cancelAll: () => number;
+}
+
+// Effects due within this many seconds run straight away.
+const IMMEDIATE_THRESHOLD_SECONDS = 0.01;
+
+export function createEffectScheduler(ctx: BaseAudioContext): EffectScheduler {
+    const pending = new Set<number>();
+
+    return {
+        at: (when, action) => {
+            const delay = Math.max(0, when - ctx.currentTime);
+            if (delay < IMMEDIATE_THRESHOLD_SECONDS) {
+                action();
+                return 0;
+            }
+            const timer = window.setTimeout(() => {
+                pending.delete(timer);
+                action();
+            }, delay * 1000);
+            pending.add(timer);
+            return delay;
+        },
+        cancelAll: () => {
+            const dropped = pending.size;
+            pending.forEach(timer => clearTimeout(timer));
+            pending.clear();
+            return dropped;
+        },
+    };
+}
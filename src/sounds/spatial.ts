@@ -0,0 +1,118 @@
+// HRTF positioning for horror sound effects. The listener sits at the origin
+// facing -z (the Web Audio default), so "behind" is +z, "left" is -x and
+// "above" is +y. Distances are in metres; with the inverse distance model a
+// sound at REF_DISTANCE plays at its normal level and gets quieter further out.
+
+export type SoundPosition =
+    | 'front' | 'behind' | 'left' | 'right' | 'above' | 'below'
+    | 'moving-closer' | 'moving-away' | 'passing-by' | 'circling';
+
+export const SOUND_POSITIONS: SoundPosition[] = [
+    'front', 'behind', 'left', 'right', 'above', 'below',
+    'moving-closer', 'moving-away', 'passing-by', 'circling',
+];
+
+type Vec3 = [number, number, number];
+
+const REF_DISTANCE = 1;
+const NEAR = 1.2;
+const FAR = 12;
+// How long a movement takes when the sound doesn't say how long it lasts.
+const DEFAULT_MOVE_SECONDS = 4;
+const CIRCLE_RADIUS = 2.5;
+const CIRCLE_PERIOD_SECONDS = 6;
+
+const STATIC_POSITIONS: Partial<Record<SoundPosition, Vec3>> = {
+    'front': [0, 0, -NEAR * 2],
+    'behind': [0, 0, NEAR],
+    'left': [-NEAR * 2, 0, 0],
+    'right': [NEAR * 2, 0, 0],
+    'above': [0, NEAR * 2, -0.3],
+    'below': [0, -NEAR * 2, -0.3],
+};
+
+export function isSoundPosition(value: unknown): value is SoundPosition {
+    return SOUND_POSITIONS.includes(value as SoundPosition);
+}
+
+function setPosition(panner: PannerNode, [x, y, z]: Vec3, when: number): void {
+    panner.positionX.setValueAtTime(x, when);
+    panner.positionY.setValueAtTime(y, when);
+    panner.positionZ.setValueAtTime(z, when);
+}
+
+function rampPosition(panner: PannerNode, [x, y, z]: Vec3, when: number): void {
+    panner.positionX.linearRampToValueAtTime(x, when);
+    panner.positionY.linearRampToValueAtTime(y, when);
+    panner.positionZ.linearRampToValueAtTime(z, when);
+}
+
+export interface SpatialNode {
+    // The panner: connect the sound into it.
+    node: AudioNode;
+    // Stops any movement automation; call it when the sound itself stops.
+    stop: (when?: number) => void;
+}
+
+// Creates an HRTF panner placed (or moving) at `position`, connected to
+// `destination` when one is given. Movement runs over `durationSeconds`; circling keeps going
+// until `stop` is called.
+export function createSpatialNode(ctx: BaseAudioContext, destination: AudioNode | null, position: SoundPosition, durationSeconds = DEFAULT_MOVE_SECONDS): SpatialNode {
+    const panner = ctx.createPanner();
+    panner.panningModel = 'HRTF';
+    panner.distanceModel = 'inverse';
+    panner.refDistance = REF_DISTANCE;
+    panner.maxDistance = FAR * 2;
+    panner.rolloffFactor = 1;
+    if (destination) panner.connect(destination);
+
+    const now = ctx.currentTime;
+    const end = now + Math.max(0.1, durationSeconds);
+    const fixed = STATIC_POSITIONS[position];
+    const movers: AudioScheduledSourceNode[] = [];
+    const node: SpatialNode = {
+        node: panner,
+        stop: (when) => movers.forEach(mover => {
+            try { mover.stop(when); } catch (e) {}
+        }),
+    };
+    if (fixed) {
+        setPosition(panner, fixed, now);
+        return node;
+    }
+
+    switch (position) {
+        case 'moving-closer':
+            // From far behind to right over the shoulder.
+            setPosition(panner, [0.5, 0, FAR], now);
+            rampPosition(panner, [0.3, 0, 0.4], end);
+            break;
+        case 'moving-away':
+            setPosition(panner, [0, 0, -0.5], now);
+            rampPosition(panner, [0, 0, -FAR], end);
+            break;
+        case 'passing-by':
+            setPosition(panner, [-FAR / 2, 0, 1], now);
+            rampPosition(panner, [FAR / 2, 0, 1], end);
+            break;
+        case 'circling': {
+            // Two quarter-turn-offset sines drive x and z round the listener.
+            setPosition(panner, [0, 0, 0], now);
+            const radius = ctx.createGain();
+            radius.gain.value = CIRCLE_RADIUS;
+            const x = ctx.createOscillator();
+            const z = ctx.createOscillator();
+            x.frequency.value = z.frequency.value = 1 / CIRCLE_PERIOD_SECONDS;
+            const zRadius = ctx.createGain();
+            zRadius.gain.value = CIRCLE_RADIUS;
+            x.connect(radius).connect(panner.positionX);
+            z.connect(zRadius).connect(panner.positionZ);
+            // Start z a quarter period later so the two are 90° apart.
+            x.start(now);
+            z.start(now + CIRCLE_PERIOD_SECONDS / 4);
+            movers.push(x, z);
+            break;
+        }
+    }
+    return node;
+}
@@ -0,0 +1,86 @@
+// Buffer-based synthesized sounds (noise and pulse textures). These can play
+// once or loop, so they are shared by one-shot effects and ambience layers.
+
+export type BufferSynthSound = 'whisper' | 'wind' | 'heartbeat' | 'hold-music';
+
+export interface SynthVoice {
+    source: AudioBufferSourceNode;
+    output: AudioNode;
+    // The level the sound was designed to sit at.
+    level: number;
+}
+
+export function isBufferSynthSound(name: string): name is BufferSynthSound {
+    return name === 'whisper' || name === 'wind' || name === 'heartbeat' || name === 'hold-music';
+}
+
+// Hold music: a gentle arpeggio over C, Am, F and G, half a second per chord tone.
+const HOLD_MUSIC_CHORDS = [
+    [261.63, 329.63, 392.0, 329.63],
+    [220.0, 261.63, 329.63, 261.63],
+    [174.61, 220.0, 261.63, 220.0],
+    [196.0, 246.94, 293.66, 246.94],
+];
+const HOLD_MUSIC_NOTE_SECONDS = 0.5;
+
+function renderHoldMusic(data: Float32Array, sampleRate: number): void {
+    const noteLength = Math.floor(sampleRate * HOLD_MUSIC_NOTE_SECONDS);
+    HOLD_MUSIC_CHORDS.flat().forEach((frequency, note) => {
+        const start = note * noteLength;
+        for (let i = 0; i < noteLength && start + i < data.length; i++) {
+            const t = i / sampleRate;
+            // Soft attack, long decay, a touch of second harmonic for a music-box tone.
+            const envelope = Math.min(1, t / 0.01) * Math.exp(-t * 4);
+            data[start + i] = envelope * (Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t));
+        }
+    });
+}
+
+export function createBufferSynthVoice(audioCtx: BaseAudioContext, type: BufferSynthSound): SynthVoice {
+    const seconds = type === 'hold-music' ? HOLD_MUSIC_CHORDS.flat().length * HOLD_MUSIC_NOTE_SECONDS : 2;
+    const bufferSize = audioCtx.sampleRate * seconds; // 2 seconds buffer for looping; hold music is one full phrase
+    const buffer = audioCtx.createBuffer(1, bufferSize, audioCtx.sampleRate);
+    const data = buffer.getChannelData(0);
+    const source = audioCtx.createBufferSource();
+    source.buffer = buffer;
+
+    switch (type) {
+        case 'whisper': {
+            for (let i = 0; i < buffer.length; i++) {
+                data[i] = Math.random() * 2 - 1;
+            }
+            const filter = audioCtx.createBiquadFilter();
+            filter.type = 'bandpass';
+            filter.frequency.value = 4000;
+            filter.Q.value = 2;
+            source.connect(filter);
+            return { source, output: filter, level: 0.02 };
+        }
+        case 'wind': {
+            for (let i = 0; i < buffer.length; i++) {
+                data[i] = Math.random() * 2 - 1; // White noise
+            }
+            const windFilter = audioCtx.createBiquadFilter();
+            windFilter.type = 'lowpass';
+            windFilter.frequency.value = 700;
+            windFilter.Q.value = 10;
+            source.connect(windFilter);
+            return { source, output: windFilter, level: 0.15 };
+        }
+        case 'heartbeat': {
+            const thumpDuration = 0.05;
+            const thumpFreq = 60;
+            for (let i = 0; i < audioCtx.sampleRate * thumpDuration; i++) {
+                // Thump 1
+                data[i] = Math.sin(i / audioCtx.sampleRate * Math.PI * 2 * thumpFreq) * Math.exp(-i / (audioCtx.sampleRate * thumpDuration) * 5);
+                // Thump 2
+                const i2 = i + Math.floor(audioCtx.sampleRate * 0.3);
+                data[i2] = Math.sin(i / audioCtx.sampleRate * Math.PI * 2 * thumpFreq) * Math.exp(-i / (audioCtx.sampleRate * thumpDuration) * 5) * 0.8;
+            }
+            return { source, output: source, level: 0.2 };
+        }
+        case 'hold-music':
+            renderHoldMusic(data, audioCtx.sampleRate);
+            return { source, output: source, level: 0.12 };
+    }
+}
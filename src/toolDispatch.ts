@@ -0,0 +1,100 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Schema, Type } from '@google/genai';
+
+// Validates model tool calls against their FunctionDeclaration schemas, runs
+// the matching handler and turns every outcome into a FunctionResponse, so
+// each call id gets an answer. Errors go back as `{ error }` in words the model
+// can act on ("unknown soundName 'scream'; available: creak, whisper, ...").
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolResult = Record<string, unknown>;
+export type ToolHandler = (args: ToolArgs) => ToolResult;
+
+// Thrown by handlers when a call is well-formed but can't be carried out.
+export class ToolCallError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ToolCallError';
+    }
+}
+
+export interface ToolDispatcher {
+    dispatch: (call: FunctionCall) => FunctionResponse;
+}
+
+function describeValue(value: unknown): string {
+    return typeof value === 'string' ? `'${value}'` : JSON.stringify(value) ?? String(value);
+}
+
+function checkValue(name: string, schema: Schema, value: unknown): string | null {
+    switch (schema.type) {
+        case Type.STRING:
+            if (typeof value !== 'string') return `${name} must be a string, got ${describeValue(value)}`;
+            if (schema.enum && !schema.enum.includes(value)) {
+                return `unknown ${name} ${describeValue(value)}; available: ${schema.enum.join(', ')}`;
+            }
+            return null;
+        case Type.NUMBER:
+        case Type.INTEGER:
+            if (typeof value !== 'number' || Number.isNaN(value)) return `${name} must be a number, got ${describeValue(value)}`;
+            if (schema.type === Type.INTEGER && !Number.isInteger(value)) return `${name} must be a whole number, got ${value}`;
+            if (schema.minimum !== undefined && value < schema.minimum) return `${name} must be at least ${schema.minimum}, got ${value}`;
+            if (schema.maximum !== undefined && value > schema.maximum) return `${name} must be at most ${schema.maximum}, got ${value}`;
+            return null;
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? null : `${name} must be true or false, got ${describeValue(value)}`;
+        default:
+            return null;
+    }
+}
+
+// Returns the problems with `args`, or an empty list if they match the declaration.
+export function validateToolArgs(declaration: FunctionDeclaration, args: ToolArgs): string[] {
+    const properties = declaration.parameters?.properties ?? {};
+    const problems: string[] = [];
+    for (const required of declaration.parameters?.required ?? []) {
+        if (args[required] === undefined || args[required] === null) problems.push(`missing required argument ${required}`);
+    }
+    for (const [name, value] of Object.entries(args)) {
+        const schema = properties[name];
+        if (!schema) {
+            problems.push(`unknown argument ${name}; expected: ${Object.keys(properties).join(', ') || 'none'}`);
+            continue;
+        }
+        if (value === undefined || value === null) continue;
+        const problem = checkValue(name, schema, value);
+        if (problem) problems.push(problem);
+    }
+    return problems;
+}
+
+export function createToolDispatcher(declarations: FunctionDeclaration[], handlers: Record<string, ToolHandler>): ToolDispatcher {
+    const byName = new Map(declarations.filter(d => d.name && handlers[d.name]).map(d => [d.name!, d]));
+
+    const fail = (call: FunctionCall, error: string): FunctionResponse => {
+        console.warn(`Tool call ${call.name}(${JSON.stringify(call.args ?? {})}) [${call.id}] failed: ${error}`);
+        return { id: call.id, name: call.name, response: { error } };
+    };
+
+    return {
+        dispatch: (call) => {
+            const declaration = call.name ? byName.get(call.name) : undefined;
+            if (!declaration) {
+                return fail(call, `unknown function ${describeValue(call.name)}; available: ${Array.from(byName.keys()).join(', ') || 'none'}`);
+            }
+            const args = call.args ?? {};
+            const problems = validateToolArgs(declaration, args);
+            if (problems.length > 0) {
+                return fail(call, problems.join('; '));
+            }
+            try {
+                const response = handlers[declaration.name!](args);
+                console.debug(`Tool call ${call.name}(${JSON.stringify(args)}) [${call.id}] ->`, response);
+                return { id: call.id, name: call.name, response };
+            } catch (error) {
+                if (error instanceof ToolCallError) return fail(call, error.message);
+                console.error(`Tool handler ${call.name} threw:`, error);
+                return fail(call, `${call.name} failed unexpectedly`);
+            }
+        },
+    };
+}
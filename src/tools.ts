@@ -0,0 +1,141 @@
+import { FunctionDeclaration, Tool, Type } from '@google/genai';
+import { PersonaToolSet } from './types';
+import { describeSounds, soundsInCategory } from './sounds/library';
+import { COMEDY_INTENSITIES } from './sounds/comedy';
+import { SOUND_POSITIONS } from './sounds/spatial';
+
+const horrorSounds = soundsInCategory('horror');
+const comedySounds = soundsInCategory('comedy');
+
+// --- Tool Definition for Sound Effects ---
+export const playSoundEffectFunctionDeclaration: FunctionDeclaration = {
+    name: 'playSoundEffect',
+    description: 'Plays a sound effect to enhance the horror story atmosphere. Use this for dramatic moments or continuous background atmosphere. Looping sounds play on named ambience layers, so several beds (e.g. wind and rain) can run at once.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            soundName: {
+                type: Type.STRING,
+                format: 'enum',
+                // Generated from the sound manifest so the model always sees the real set.
+                enum: horrorSounds.map(s => s.name),
+                description: `The name of the sound effect to play. Available sounds: ${describeSounds(horrorSounds)}.`,
+            },
+            loop: {
+                type: Type.BOOLEAN,
+                description: "Whether the sound should loop continuously in the background. Defaults to the sound's own setting (sounds marked 'loops' above). Use 'true' for atmospheric sounds like 'wind', 'rain' or 'heartbeat'."
+            },
+            position: {
+                type: Type.STRING,
+                format: 'enum',
+                enum: SOUND_POSITIONS,
+                description: "Where the sound comes from, relative to the listener, e.g. 'behind' for footsteps at their back, 'above' for a thump on the roof, 'moving-closer' for something approaching, 'circling' for a whisper going round them. Omit for a plain sound.",
+            },
+            layer: {
+                type: Type.STRING,
+                description: "Only for looping sounds: the ambience layer to play on. Defaults to the sound's name. Starting a sound on a layer that is already playing crossfades to the new sound.",
+            },
+            fadeSeconds: {
+                type: Type.NUMBER,
+                minimum: 0,
+                description: 'Only for looping sounds: how long the loop takes to fade in, in seconds. Defaults to 1.',
+            },
+        },
+        required: ['soundName'],
+    },
+};
+
+export const setAmbianceVolumeFunctionDeclaration: FunctionDeclaration = {
+    name: 'setAmbianceVolume',
+    description: 'Adjusts the volume of the looping background sounds to match the story\'s intensity. Use this to build suspense or create a jump scare.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            volume: {
+                type: Type.NUMBER,
+                minimum: 0,
+                maximum: 1,
+                description: "The desired volume level from 0.0 (silent) to 1.0 (max). For example: 0.1 for a subtle atmosphere, 0.3 for rising tension, 0.6 for a climactic moment.",
+            },
+            layer: {
+                type: Type.STRING,
+                description: 'The ambience layer to adjust. Omit to adjust every layer.',
+            },
+            fadeSeconds: {
+                type: Type.NUMBER,
+                minimum: 0,
+                description: 'How long the volume change takes, in seconds. Defaults to 1.',
+            },
+        },
+        required: ['volume'],
+    },
+};
+
+export const stopSoundEffectFunctionDeclaration: FunctionDeclaration = {
+    name: 'stopSoundEffect',
+    description: 'Fades out a looping background sound. A sudden stop (fadeSeconds 0) makes an eerie silence before a scare.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            layer: {
+                type: Type.STRING,
+                description: 'The ambience layer to stop. Omit to stop every layer.',
+            },
+            fadeSeconds: {
+                type: Type.NUMBER,
+                minimum: 0,
+                description: 'How long the fade out takes, in seconds. Defaults to 1.',
+            },
+        },
+    },
+};
+
+// --- Tool Definition for Comedy Sounds ---
+export const playComedySoundFunctionDeclaration: FunctionDeclaration = {
+    name: 'playComedySound',
+    description: 'Plays a comedy sound cue, like a live show. Call it right after a punchline lands, or when a joke flops, to punctuate the moment. Use it sparingly: at most once per joke.',
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            soundName: {
+                type: Type.STRING,
+                format: 'enum',
+                enum: comedySounds.map(s => s.name),
+                description: `The comedy sound to play. Available sounds: ${describeSounds(comedySounds)}.`,
+            },
+            intensity: {
+                type: Type.STRING,
+                format: 'enum',
+                enum: COMEDY_INTENSITIES,
+                description: "How big the crowd reaction is, for 'laugh-track' and 'applause': 'small' for a chuckle, 'medium' for a good joke, 'big' for a killer punchline. Defaults to 'medium'.",
+            },
+        },
+        required: ['soundName'],
+    },
+};
+
+const TOOL_SETS: Record<PersonaToolSet, FunctionDeclaration[]> = {
+    soundEffects: [playSoundEffectFunctionDeclaration, setAmbianceVolumeFunctionDeclaration, stopSoundEffectFunctionDeclaration],
+    comedy: [playComedySoundFunctionDeclaration],
+};
+
+// Extra prompt text for tool sets whose use isn't already described in persona prompts.
+const TOOL_SET_INSTRUCTIONS: Partial<Record<PersonaToolSet, string>> = {
+    comedy: "You can play comedy sound cues with `playComedySound`. Right after a punchline, call it (e.g. `playComedySound('rimshot')` or `playComedySound('laugh-track', intensity: 'big')`). If the user doesn't laugh, a `crickets` or `sad-trombone` makes it funnier. Don't mention the sounds out loud.",
+};
+
+export function buildToolInstructions(toolSets: PersonaToolSet[]): string {
+    return toolSets.map(set => TOOL_SET_INSTRUCTIONS[set]).filter(Boolean).join(' ');
+}
+
+export const PERSONA_TOOL_SETS = Object.keys(TOOL_SETS) as PersonaToolSet[];
+
+export function toolDeclarations(toolSets: PersonaToolSet[]): FunctionDeclaration[] {
+    return toolSets.flatMap(set => TOOL_SETS[set] ?? []);
+}
+
+// Builds the `tools` entry of the live connect config for the given tool sets.
+export function buildToolsConfig(toolSets: PersonaToolSet[]): Tool[] | undefined {
+    const functionDeclarations = toolDeclarations(toolSets);
+    return functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined;
+}
@@ -0,0 +1,15 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveTransport } from './types';
+import { fetchEphemeralToken } from './tokenProxy';
+
+// Connects with an ephemeral token from the proxy, so the API key never reaches the browser.
+export function createGeminiTransport(): LiveTransport {
+    return {
+        connect: async (options) => {
+            const { token } = await fetchEphemeralToken();
+            // Ephemeral tokens are only accepted by the v1alpha API.
+            const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+            return ai.live.connect(options);
+        },
+    };
+}
@@ -0,0 +1,18 @@
+import { AppTheme } from '../types';
+import { createGeminiTransport } from './gemini';
+import { createScriptedTransport } from './scripted';
+import { LiveTransport } from './types';
+
+export type { LiveSession, LiveTransport } from './types';
+export { checkProxyHealth, TOKEN_PROXY_URL } from './tokenProxy';
+
+// `LIVE_TRANSPORT=fake` runs calls against a scripted local fake instead of the Gemini API.
+export const isFakeTransport = process.env.LIVE_TRANSPORT === 'fake';
+
+export function createLiveTransport(theme: AppTheme): LiveTransport {
+    if (isFakeTransport) {
+        const scriptUrl = (process.env.FAKE_LIVE_SCRIPT as string) || `/scripts/${theme}.json`;
+        return createScriptedTransport(scriptUrl);
+    }
+    return createGeminiTransport();
+}
@@ -0,0 +1,135 @@
+import { LiveServerMessage } from '@google/genai';
+import { decode, pcm16ToBlob, API_OUTPUT_SAMPLE_RATE } from '../utils/audio';
+import { LiveConnectOptions, LiveSession, LiveTransport } from './types';
+
+// An offline stand-in for the Live API that replays a scripted sequence of
+// server messages from a JSON file, so the whole call flow (transcriptions,
+// audio playback, tool calls, interruptions) can be worked on without a key.
+//
+// Script format:
+// {
+//   "loop": false,
+//   "steps": [
+//     { "waitFor": "speech" },                      // until the mic hears something (or a message is typed)
+//     { "delayMs": 300, "message": { ...LiveServerMessage JSON... } },
+//     { "tone": { "frequency": 220, "durationMs": 800 } }, // synthesized audio chunk
+//     { "waitFor": "toolResponse" },                // until the app answers a toolCall
+//     { "close": true }                             // simulate the server dropping the socket
+//   ]
+// }
+
+export interface ScriptStep {
+    delayMs?: number;
+    waitFor?: 'speech' | 'toolResponse';
+    message?: LiveServerMessage;
+    tone?: { frequency: number; durationMs: number };
+    close?: boolean;
+}
+
+export interface LiveScript {
+    loop?: boolean;
+    steps: ScriptStep[];
+}
+
+interface Waiter {
+    kind: NonNullable<ScriptStep['waitFor']>;
+    resolve: () => void;
+}
+
+// Mic frames with an RMS above this (out of 32768) count as the caller speaking.
+const SPEECH_RMS_THRESHOLD = 600;
+
+async function loadScript(url: string): Promise<LiveScript> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Could not load fake live script ${url} (HTTP ${response.status}).`);
+    }
+    const script = await response.json() as LiveScript;
+    if (!Array.isArray(script?.steps)) {
+        throw new Error(`Fake live script ${url} has no "steps" array.`);
+    }
+    return script;
+}
+
+// A short sine tone with fade in/out, standing in for model speech.
+function toneMessage(frequency: number, durationMs: number): LiveServerMessage {
+    const sampleRate = API_OUTPUT_SAMPLE_RATE;
+    const length = Math.round(sampleRate * durationMs / 1000);
+    const fade = Math.min(length / 2, sampleRate * 0.01);
+    const pcm = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+        const envelope = Math.min(1, i / fade, (length - i) / fade);
+        pcm[i] = Math.sin(2 * Math.PI * frequency * i / sampleRate) * envelope * 6000;
+    }
+    const blob = pcm16ToBlob(pcm, sampleRate);
+    return { serverContent: { modelTurn: { parts: [{ inlineData: { data: blob.data, mimeType: blob.mimeType } }] } } } as LiveServerMessage;
+}
+
+function rms(base64Pcm: string): number {
+    const bytes = decode(base64Pcm);
+    const samples = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    return samples.length ? Math.sqrt(sum / samples.length) : 0;
+}
+
+export function createScriptedTransport(scriptUrl: string): LiveTransport {
+    return {
+        connect: async ({ callbacks }: LiveConnectOptions): Promise<LiveSession> => {
+            const script = await loadScript(scriptUrl);
+
+            let closed = false;
+            let waiter: Waiter | null = null;
+            const release = (kind: Waiter['kind']) => {
+                const current: Waiter | null = waiter;
+                if (current && current.kind === kind) {
+                    waiter = null;
+                    current.resolve();
+                }
+            };
+            const waitFor = (kind: Waiter['kind']) => new Promise<void>(resolve => { waiter = { kind, resolve }; });
+            const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+            const session: LiveSession = {
+                sendRealtimeInput: (params) => {
+                    if (params.media?.data && rms(params.media.data) > SPEECH_RMS_THRESHOLD) {
+                        release('speech');
+                    }
+                },
+                sendToolResponse: () => release('toolResponse'),
+                // A typed message counts as the caller speaking.
+                sendClientContent: () => release('speech'),
+                close: () => {
+                    if (closed) return;
+                    closed = true;
+                    waiter = null;
+                    callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'Closed by client.' }));
+                },
+            };
+
+            const play = async () => {
+                do {
+                    for (const step of script.steps) {
+                        if (step.delayMs) await sleep(step.delayMs);
+                        if (step.waitFor) await waitFor(step.waitFor);
+                        if (closed) return;
+                        if (step.message) callbacks.onmessage(step.message);
+                        if (step.tone) callbacks.onmessage(toneMessage(step.tone.frequency, step.tone.durationMs));
+                        if (step.close) {
+                            closed = true;
+                            callbacks.onclose?.(new CloseEvent('close', { code: 1006, reason: 'Scripted disconnect.' }));
+                            return;
+                        }
+                    }
+                } while (script.loop && !closed);
+            };
+
+            // Like the SDK: onopen fires before connect() resolves.
+            callbacks.onopen?.();
+            setTimeout(() => {
+                play().catch(error => callbacks.onerror?.(new ErrorEvent('error', { message: (error as Error).message })));
+            }, 0);
+            return session;
+        },
+    };
+}
@@ -0,0 +1,63 @@
+// Talks to the local token proxy (server/tokenProxy.mjs), which holds the API
+// key and hands out short-lived, single-use tokens for live sessions.
+
+export const TOKEN_PROXY_URL = (process.env.TOKEN_PROXY_URL as string) || '/api';
+
+// A rate-limited request waits out the proxy's Retry-After and tries again, but
+// not forever: past this many tries or this long a wait, it gives up.
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_AFTER_MS = 15000;
+
+export interface EphemeralToken {
+    token: string;
+    expireTime: string;
+    newSessionExpireTime: string;
+}
+
+async function errorMessage(response: Response): Promise<string> {
+    try {
+        const body = await response.json() as { error?: string };
+        if (body.error) return body.error;
+    } catch (e) {}
+    return `HTTP ${response.status}`;
+}
+
+// Retry-After in milliseconds; the proxy sends whole seconds.
+function retryAfterMs(response: Response): number {
+    const seconds = Number(response.headers.get('Retry-After'));
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 1000;
+}
+
+// True when the proxy is up and has a key configured.
+export async function checkProxyHealth(): Promise<boolean> {
+    try {
+        const response = await fetch(`${TOKEN_PROXY_URL}/health`, { cache: 'no-store' });
+        return response.ok;
+    } catch (e) {
+        return false;
+    }
+}
+
+// Each live session (including reconnects) needs a fresh token: they are single-use.
+export async function fetchEphemeralToken(): Promise<EphemeralToken> {
+    for (let attempt = 0; ; attempt++) {
+        let response: Response;
+        try {
+            response = await fetch(`${TOKEN_PROXY_URL}/token`, { method: 'POST', cache: 'no-store' });
+        } catch (e) {
+            throw new Error(`Could not reach the token proxy at ${TOKEN_PROXY_URL}.`);
+        }
+        if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+            const wait = retryAfterMs(response);
+            if (wait <= MAX_RETRY_AFTER_MS) {
+                console.warn(`Token proxy rate limit hit; retrying in ${wait / 1000}s.`);
+                await new Promise(resolve => setTimeout(resolve, wait));
+                continue;
+            }
+        }
+        if (!response.ok) {
+            throw new Error(`The token proxy refused a session token: ${await errorMessage(response)}`);
+        }
+        return await response.json() as EphemeralToken;
+    }
+}
@@ -0,0 +1,27 @@
+import {
+    LiveCallbacks,
+    LiveConnectConfig,
+    LiveSendClientContentParameters,
+    LiveSendRealtimeInputParameters,
+    LiveSendToolResponseParameters,
+} from '@google/genai';
+
+// The subset of the SDK's live `Session` the app talks to.
+export interface LiveSession {
+    sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+    sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+    // Typed turns, for text mode.
+    sendClientContent: (params: LiveSendClientContentParameters) => void;
+    close: () => void;
+}
+
+export interface LiveConnectOptions {
+    model: string;
+    config: LiveConnectConfig;
+    callbacks: LiveCallbacks;
+}
+
+// Something that can open a live session: the Gemini API, or a local fake.
+export interface LiveTransport {
+    connect: (options: LiveConnectOptions) => Promise<LiveSession>;
+}
@@ -1,5 +1,82 @@
-
 export interface TranscriptionEntry {
   speaker: 'You' | 'AI';
   text: string;
-}
\ No newline at end of file
+  // Milliseconds relative to the start of the call.
+  startTime: number;
+  endTime: number;
+  // Id of the persona the call was made with.
+  category: string;
+  // True if the speaker was cut off before finishing the turn.
+  interrupted: boolean;
+}
+
+export type AppTheme = 'jokes' | 'horror';
+
+// A finished call as kept in the call history.
+export interface CallRecord {
+  id: string;
+  category: string;
+  personaLabel: string;
+  theme: AppTheme;
+  // Wall-clock start time (ms since epoch).
+  startedAt: number;
+  durationSeconds: number;
+  transcript: TranscriptionEntry[];
+  audio?: Blob;
+}
+
+// Groups of function declarations a persona can enable for its live session.
+export type PersonaToolSet = 'soundEffects' | 'comedy';
+
+// How far sound effects and ambience dip while the AI is talking.
+export interface DuckingSettings {
+  // Time to duck down once speech starts, and to come back up after it stops.
+  attackMs: number;
+  releaseMs: number;
+  // How much to duck: 0 leaves effects alone, 1 silences them.
+  depth: number;
+}
+
+export interface Persona {
+  id: string;
+  label: string;
+  theme: AppTheme;
+  // May contain a `{greeting}` placeholder; otherwise the greeting is appended.
+  systemInstruction: string;
+  voiceName: string;
+  tools: PersonaToolSet[];
+  greeting: string;
+  // Overrides for the default ambience ducking.
+  ducking?: Partial<DuckingSettings>;
+  // Created in the in-app persona builder and stored in IndexedDB.
+  custom?: boolean;
+}
+
+// What family-safe mode does when the AI says a blocklisted term.
+export type BlockedTermAction = 'redirect' | 'end';
+
+// Parent-controlled content settings, stored locally.
+export interface FamilySafetySettings {
+  // Stricter instructions for every persona, plus transcript moderation.
+  familySafe: boolean;
+  blocklist: string[];
+  onBlocked: BlockedTermAction;
+  // Removes horror personas from the category list altogether.
+  hideHorror: boolean;
+  // SHA-256 of the parent PIN; null until one is set.
+  pinHash: string | null;
+}
+
+export type JokeRating = 'up' | 'down';
+
+// An AI turn the caller rated or saved, kept locally across calls.
+export interface RatedJoke {
+  // Derived from the call and the turn's start time, so re-rating updates the same record.
+  id: string;
+  text: string;
+  category: string;
+  personaLabel: string;
+  rating: JokeRating | null;
+  favorite: boolean;
+  savedAt: number;
+}
@@ -1,6 +1,10 @@
 
 import { Blob } from '@google/genai';
 
+// The Live API expects 16 kHz mono PCM input and (by default) sends 24 kHz output.
+export const API_INPUT_SAMPLE_RATE = 16000;
+export const API_OUTPUT_SAMPLE_RATE = 24000;
+
 // Encodes raw audio data into a Base64 string.
 function encode(bytes: Uint8Array): string {
   let binary = '';
@@ -44,14 +48,106 @@ export async function decodeAudioData(
 
 
 // Creates a Blob object for the GenAI SDK from raw audio data.
-export function createPcmBlob(data: Float32Array): Blob {
+export function createPcmBlob(data: Float32Array, sampleRate: number = API_INPUT_SAMPLE_RATE): Blob {
     const l = data.length;
     const int16 = new Int16Array(l);
     for (let i = 0; i < l; i++) {
       int16[i] = data[i] * 32768;
     }
+    return pcm16ToBlob(int16, sampleRate);
+}
+
+// Wraps already-converted 16-bit PCM samples in a Blob object for the GenAI SDK.
+export function pcm16ToBlob(pcm: Int16Array, sampleRate: number = API_INPUT_SAMPLE_RATE): Blob {
     return {
-      data: encode(new Uint8Array(int16.buffer)),
-      mimeType: 'audio/pcm;rate=16000',
+      data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+      mimeType: `audio/pcm;rate=${sampleRate}`,
     };
-}
\ No newline at end of file
+}
+
+// Reads the sample rate from a mime type such as 'audio/pcm;rate=24000'.
+export function parseSampleRate(mimeType: string | undefined, fallback: number = API_OUTPUT_SAMPLE_RATE): number {
+  const match = mimeType?.match(/rate=(\d+)/);
+  const rate = match ? parseInt(match[1], 10) : NaN;
+  return rate > 0 ? rate : fallback;
+}
+
+// Creates an AudioContext at the preferred rate, falling back to the device
+// rate for browsers that reject (rather than ignore) the requested rate.
+export function createAudioContext(preferredSampleRate?: number): AudioContext {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!preferredSampleRate) return new AudioContextClass();
+  try {
+    return new AudioContextClass({ sampleRate: preferredSampleRate });
+  } catch (error) {
+    console.warn(`AudioContext at ${preferredSampleRate} Hz not supported, using the device rate.`, error);
+    return new AudioContextClass();
+  }
+}
+
+// Creates a streaming 16-bit PCM resampler. State is kept between calls so
+// consecutive chunks join without clicks. Downsampling applies a moving-average
+// low-pass first to keep aliasing down; the rest is linear interpolation.
+export function createResampler(inputRate: number, outputRate: number): (input: Int16Array) => Int16Array {
+  if (inputRate === outputRate) return (input) => input;
+
+  const ratio = inputRate / outputRate;
+  const taps = ratio > 1 ? Math.max(1, Math.round(ratio)) : 1;
+  const history = new Float32Array(taps); // ring buffer for the moving average
+  let historyIndex = 0;
+  let historySum = 0;
+  let prev = 0; // last filtered sample of the previous chunk
+  let pos = 0;  // position of the next output sample relative to the chunk start
+
+  return (input) => {
+    const n = input.length;
+    if (n === 0) return new Int16Array(0);
+
+    const filtered = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      historySum += input[i] - history[historyIndex];
+      history[historyIndex] = input[i];
+      historyIndex = (historyIndex + 1) % taps;
+      filtered[i] = historySum / taps;
+    }
+
+    const output = new Int16Array(Math.ceil((n - pos) / ratio) + 1);
+    let count = 0;
+    while (pos <= n - 1) {
+      const i0 = Math.floor(pos);
+      const frac = pos - i0;
+      const a = i0 < 0 ? prev : filtered[i0];
+      const b = i0 + 1 < n ? filtered[i0 + 1] : a;
+      output[count++] = Math.max(-32768, Math.min(32767, Math.round(a + (b - a) * frac)));
+      pos += ratio;
+    }
+    pos -= n;
+    prev = filtered[n - 1];
+    return output.subarray(0, count);
+  };
+}
+
+// Packs mono 16-bit PCM chunks into a WAV file.
+export function encodeWav(chunks: Int16Array[], sampleRate: number): globalThis.Blob {
+  const dataLength = chunks.reduce((sum, c) => sum + c.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) header.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);          // fmt chunk size
+  header.setUint16(20, 1, true);           // PCM
+  header.setUint16(22, 1, true);           // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // byte rate
+  header.setUint16(32, 2, true);           // block align
+  header.setUint16(34, 16, true);          // bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataLength, true);
+
+  return new globalThis.Blob([header, ...(chunks as BlobPart[])], { type: 'audio/wav' });
+}
@@ -0,0 +1,88 @@
+import { encodeWav } from './audio';
+import { startPcmCapture, MicCapture } from './micCapture';
+
+// Records the whole call: everything on the output bus (AI voice and sound
+// effects) mixed with the caller's mic, as lossless WAV and as WebM/Opus.
+
+export interface CallRecording {
+  wav: Blob;
+  compressed: Blob | null;
+  durationSeconds: number;
+}
+
+export interface CallRecorder {
+  stop: () => Promise<CallRecording>;
+}
+
+const COMPRESSED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm'];
+
+export function compressedExtension(blob: Blob): string {
+  return blob.type.includes('ogg') ? 'ogg' : 'webm';
+}
+
+export async function startCallRecorder(
+  ctx: AudioContext,
+  outputBus: AudioNode,
+  micStream: MediaStream | null,
+): Promise<CallRecorder> {
+  const mix = ctx.createGain();
+  outputBus.connect(mix);
+
+  let micSource: MediaStreamAudioSourceNode | null = null;
+  if (micStream) {
+    try {
+      micSource = ctx.createMediaStreamSource(micStream);
+      micSource.connect(mix);
+    } catch (error) {
+      // e.g. Firefox refuses mic streams in a context at a different sample rate.
+      console.warn('Mic could not be added to the recording; recording the AI side only.', error);
+      micSource = null;
+    }
+  }
+
+  const pcmChunks: Int16Array[] = [];
+  const pcmCapture: MicCapture = await startPcmCapture(ctx, mix, (pcm) => pcmChunks.push(pcm), 100);
+
+  let mediaRecorder: MediaRecorder | null = null;
+  const compressedChunks: Blob[] = [];
+  const mimeType = typeof MediaRecorder !== 'undefined'
+    ? COMPRESSED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    : undefined;
+  if (mimeType) {
+    const streamDestination = ctx.createMediaStreamDestination();
+    mix.connect(streamDestination);
+    mediaRecorder = new MediaRecorder(streamDestination.stream, { mimeType });
+    mediaRecorder.ondataavailable = (e) => {
+      if (e.data.size > 0) compressedChunks.push(e.data);
+    };
+    mediaRecorder.start(1000);
+  }
+
+  const startedAt = Date.now();
+
+  return {
+    stop: async () => {
+      pcmCapture.stop();
+
+      let compressed: Blob | null = null;
+      if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+        const recorder = mediaRecorder;
+        await new Promise<void>(resolve => {
+          recorder.onstop = () => resolve();
+          recorder.stop();
+        });
+        compressed = new Blob(compressedChunks, { type: recorder.mimeType || mimeType });
+      }
+
+      micSource?.disconnect();
+      try { outputBus.disconnect(mix); } catch (e) {}
+      mix.disconnect();
+
+      return {
+        wav: encodeWav(pcmChunks, ctx.sampleRate),
+        compressed,
+        durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+      };
+    },
+  };
+}
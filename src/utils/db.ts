@@ -0,0 +1,54 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'baishaha-joke-wala';
+const DB_VERSION = 3;
+
+export type StoreName = 'personas' | 'calls' | 'jokes';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('personas')) {
+          db.createObjectStore('personas', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('calls')) {
+          db.createObjectStore('calls', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('jokes')) {
+          db.createObjectStore('jokes', { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+export function getAll<T>(store: StoreName): Promise<T[]> {
+  return run<T[]>(store, 'readonly', s => s.getAll());
+}
+
+export function put<T>(store: StoreName, value: T): Promise<IDBValidKey> {
+  return run(store, 'readwrite', s => s.put(value));
+}
+
+export function remove(store: StoreName, key: IDBValidKey): Promise<undefined> {
+  return run(store, 'readwrite', s => s.delete(key));
+}
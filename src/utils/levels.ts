@@ -0,0 +1,21 @@
+// Helpers for reading live audio levels off AnalyserNodes (mic meter, AI visualizers).
+
+// Levels below this many dB count as silence.
+const FLOOR_DB = -60;
+
+export function createLevelAnalyser(ctx: BaseAudioContext): AnalyserNode {
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 512;
+    analyser.smoothingTimeConstant = 0.6;
+    return analyser;
+}
+
+// The analyser's current loudness on a 0..1 scale (linear in dB above the floor).
+export function readLevel(analyser: AnalyserNode, scratch: Float32Array<ArrayBuffer>): number {
+    analyser.getFloatTimeDomainData(scratch);
+    let sum = 0;
+    for (let i = 0; i < scratch.length; i++) sum += scratch[i] * scratch[i];
+    const rms = Math.sqrt(sum / scratch.length);
+    if (rms <= 0) return 0;
+    return Math.max(0, Math.min(1, (20 * Math.log10(rms) - FLOOR_DB) / -FLOOR_DB));
+}
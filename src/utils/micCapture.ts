@@ -0,0 +1,103 @@
+// Mic capture on the audio rendering thread. The worklet converts samples to
+// 16-bit PCM and groups them into fixed-size frames, so the main thread only
+// has to forward ready-made chunks to the session.
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frameSize = options.processorOptions.frameSize;
+    this.frame = new Int16Array(this.frameSize);
+    this.offset = 0;
+    this.running = true;
+    this.port.onmessage = (e) => {
+      if (e.data === 'stop') this.running = false;
+    };
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        const s = Math.max(-1, Math.min(1, channel[i]));
+        this.frame[this.offset++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+        if (this.offset === this.frameSize) {
+          this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+          this.frame = new Int16Array(this.frameSize);
+          this.offset = 0;
+        }
+      }
+    }
+    return this.running;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// addModule() must only run once per AudioContext.
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+function loadProcessor(ctx: BaseAudioContext): Promise<void> {
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+}
+
+export interface MicCapture {
+  stop: () => void;
+}
+
+// Streams any node's output as PCM16 frames of `frameMs` milliseconds at the context's sample rate.
+export async function startPcmCapture(
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  onFrame: (pcm: Int16Array) => void,
+  frameMs: number = 20,
+): Promise<MicCapture> {
+  await loadProcessor(ctx);
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { frameSize: Math.round(ctx.sampleRate * frameMs / 1000) },
+  });
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => onFrame(new Int16Array(e.data));
+
+  input.connect(node);
+  // The node outputs silence; connecting it keeps the graph pulling audio through it.
+  node.connect(ctx.destination);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      node.port.postMessage('stop');
+      try { input.disconnect(node); } catch (e) {}
+      node.disconnect();
+    },
+  };
+}
+
+// Starts streaming the mic as PCM16 frames of `frameMs` milliseconds at the context's sample rate.
+export async function startMicCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onFrame: (pcm: Int16Array) => void,
+  frameMs: number = 20,
+): Promise<MicCapture> {
+  const source = ctx.createMediaStreamSource(stream);
+  const capture = await startPcmCapture(ctx, source, onFrame, frameMs);
+  return {
+    stop: () => {
+      capture.stop();
+      source.disconnect();
+    },
+  };
+}
@@ -0,0 +1,20 @@
+// Small typed wrapper around localStorage for user settings.
+
+const PREFIX = 'baishaha.';
+
+export function loadSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T): void {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save setting '${key}':`, error);
+  }
+}
@@ -0,0 +1,88 @@
+import { TranscriptionEntry } from '../types';
+import { TranscriptScript, transliterate } from './transliterate';
+
+// Converters from a call transcript to caption and document formats.
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'json' | 'md';
+
+export interface TranscriptMeta {
+  personaLabel: string;
+  // Wall-clock time the call started (ms since epoch).
+  startedAt: number;
+}
+
+function pad(value: number, length: number = 2): string {
+  return value.toString().padStart(length, '0');
+}
+
+function formatTimestamp(ms: number, fractionSeparator: string): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(total % 1000, 3)}`;
+}
+
+// Captions need a visible duration even for entries whose start and end coincide.
+function cueEnd(entry: TranscriptionEntry): number {
+  return Math.max(entry.endTime, entry.startTime + 1000);
+}
+
+function cueText(entry: TranscriptionEntry): string {
+  return `${entry.speaker}: ${entry.text.trim()}${entry.interrupted ? ' —' : ''}`;
+}
+
+export function toSrt(entries: TranscriptionEntry[]): string {
+  return entries.map((entry, i) =>
+    `${i + 1}\n${formatTimestamp(entry.startTime, ',')} --> ${formatTimestamp(cueEnd(entry), ',')}\n${cueText(entry)}\n`
+  ).join('\n');
+}
+
+export function toWebVtt(entries: TranscriptionEntry[]): string {
+  const cues = entries.map(entry =>
+    `${formatTimestamp(entry.startTime, '.')} --> ${formatTimestamp(cueEnd(entry), '.')}\n<v ${entry.speaker}>${entry.text.trim()}${entry.interrupted ? ' —' : ''}\n`
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function toJson(entries: TranscriptionEntry[], meta: TranscriptMeta): string {
+  return JSON.stringify({
+    persona: meta.personaLabel,
+    startedAt: new Date(meta.startedAt).toISOString(),
+    entries,
+  }, null, 2);
+}
+
+export function toMarkdown(entries: TranscriptionEntry[], meta: TranscriptMeta): string {
+  const lines = [
+    `# ${meta.personaLabel} — call transcript`,
+    '',
+    `*${new Date(meta.startedAt).toLocaleString()}*`,
+    '',
+  ];
+  entries.forEach(entry => {
+    const time = formatTimestamp(entry.startTime, '.').replace(/^00:/, '').slice(0, -4);
+    const suffix = entry.interrupted ? ' *(interrupted)*' : '';
+    lines.push(`**${entry.speaker}** \`${time}\` — ${entry.text.trim()}${suffix}`, '');
+  });
+  return lines.join('\n');
+}
+
+const FORMATS: Record<TranscriptFormat, { mimeType: string; render: (entries: TranscriptionEntry[], meta: TranscriptMeta) => string }> = {
+  srt: { mimeType: 'application/x-subrip', render: toSrt },
+  vtt: { mimeType: 'text/vtt', render: toWebVtt },
+  json: { mimeType: 'application/json', render: toJson },
+  md: { mimeType: 'text/markdown', render: toMarkdown },
+};
+
+// `script` renders every entry the way the transcript panel currently shows it.
+export function exportTranscript(
+  entries: TranscriptionEntry[],
+  meta: TranscriptMeta,
+  format: TranscriptFormat,
+  script: TranscriptScript = 'original',
+): Blob {
+  const { mimeType, render } = FORMATS[format];
+  const rendered = script === 'original' ? entries : entries.map(entry => ({ ...entry, text: transliterate(entry.text, script) }));
+  return new Blob([render(rendered, meta)], { type: `${mimeType};charset=utf-8` });
+}
@@ -0,0 +1,335 @@
+// Offline transliteration between Devanagari and romanized Hinglish, so
+// transcripts can be read in whichever script the caller prefers.
+//
+// Devanagari -> Roman is rule-based and aims for what people actually type
+// ("kya", "samajhna", "zindagi"), not a scholarly scheme. Nasalised long
+// vowels keep their length, so नहीं comes out as "naheen".
+//
+// Roman -> Devanagari first has to tell Hinglish from English. Words from a
+// lexicon of common Hinglish ("nahi", "kya", "bahut") always convert; other
+// words next to them convert by letter rules unless they are common English,
+// so "Hello friend, kya haal hai?" keeps "Hello friend". A romanized word with
+// no Hinglish around it (a name on its own, say) is left as written.
+
+export type TranscriptScript = 'original' | 'devanagari' | 'roman' | 'both';
+
+export const TRANSCRIPT_SCRIPTS: TranscriptScript[] = ['original', 'devanagari', 'roman', 'both'];
+
+// --- Devanagari -> Roman ---
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'ng',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'ny',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v', 'श': 'sh',
+  'ष': 'sh', 'स': 's', 'ह': 'h', 'ळ': 'l',
+};
+
+// Consonant + nukta, written either precomposed or as two code points.
+const NUKTA_CONSONANTS: Record<string, string> = {
+  'क': 'q', 'ख': 'kh', 'ग': 'gh', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f', 'य': 'y',
+};
+const PRECOMPOSED_NUKTA: Record<string, string> = {
+  'क़': 'क', 'ख़': 'ख', 'ग़': 'ग', 'ज़': 'ज', 'ड़': 'ड', 'ढ़': 'ढ', 'फ़': 'फ', 'य़': 'य',
+};
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o', 'ऍ': 'e',
+};
+
+const MATRAS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o', 'ॅ': 'e',
+};
+
+// Long vowels are usually written short at the end of a word ("kya", "thi", "tu").
+const WORD_FINAL_VOWELS: Record<string, string> = { aa: 'a', ee: 'i', oo: 'u' };
+
+const VIRAMA = '्';
+const NUKTA = '़';
+const NASALS: Record<string, string> = { 'ं': 'n', 'ँ': 'n', 'ः': 'h' };
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+const SYMBOLS: Record<string, string> = { 'ॐ': 'om' };
+
+// One spoken unit of a word: a consonant cluster and the vowel after it.
+interface Syllable {
+  consonants: string;
+  vowel: string;
+  // The vowel is the consonant's unwritten "a", a candidate for schwa deletion.
+  inherent: boolean;
+  // Nasal or visarga sounds that follow the vowel.
+  coda: string;
+  // More than one consonant before the vowel ("स्त").
+  cluster: boolean;
+}
+
+function parseDevanagariWord(word: string): Syllable[] {
+  const chars = Array.from(word.normalize('NFC')).flatMap(ch =>
+    PRECOMPOSED_NUKTA[ch] ? [PRECOMPOSED_NUKTA[ch], NUKTA] : [ch]
+  );
+  const syllables: Syllable[] = [];
+  let cluster = '';
+  let clusterSize = 0;
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    if (CONSONANTS[ch]) {
+      const hasNukta = chars[i + 1] === NUKTA;
+      cluster += hasNukta ? NUKTA_CONSONANTS[ch] ?? CONSONANTS[ch] : CONSONANTS[ch];
+      clusterSize++;
+      if (hasNukta) i++;
+      const next = chars[i + 1];
+      if (next === VIRAMA) {
+        i++;
+        continue;
+      }
+      if (MATRAS[next]) {
+        syllables.push({ consonants: cluster, vowel: MATRAS[next], inherent: false, coda: '', cluster: clusterSize > 1 });
+        i++;
+      } else {
+        syllables.push({ consonants: cluster, vowel: 'a', inherent: true, coda: '', cluster: clusterSize > 1 });
+      }
+      cluster = '';
+      clusterSize = 0;
+    } else if (VOWELS[ch]) {
+      syllables.push({ consonants: cluster, vowel: VOWELS[ch], inherent: false, coda: '', cluster: false });
+      cluster = '';
+      clusterSize = 0;
+    } else if (NASALS[ch] && syllables.length > 0) {
+      syllables[syllables.length - 1].coda += NASALS[ch];
+    }
+  }
+  // A trailing half consonant ("क्" on its own) keeps its sound without a vowel.
+  if (cluster) syllables.push({ consonants: cluster, vowel: '', inherent: false, coda: '', cluster: clusterSize > 1 });
+  return syllables;
+}
+
+// Hindi drops the inherent "a" at the end of a word and in the middle of
+// VC_CV patterns ("समझना" is "samajhna", not "samajhanaa"), but not before a
+// consonant cluster or after a nasal ("namaste", "zindagi"). Scanning from the
+// right and never deleting two in a row is the usual approximation.
+function deleteSchwas(syllables: Syllable[]): void {
+  const last = syllables[syllables.length - 1];
+  if (syllables.length > 1 && last.inherent && !last.coda) last.vowel = '';
+  for (let i = syllables.length - 2; i >= 1; i--) {
+    const current = syllables[i];
+    const next = syllables[i + 1];
+    const previous = syllables[i - 1];
+    if (current.inherent && !current.coda && previous.vowel && !previous.coda && next.vowel && next.consonants && !next.cluster) {
+      current.vowel = '';
+      i--;
+    }
+  }
+}
+
+function devanagariWordToRoman(word: string): string {
+  const syllables = parseDevanagariWord(word);
+  if (syllables.length === 0) return word;
+  deleteSchwas(syllables);
+  const last = syllables[syllables.length - 1];
+  if (!last.coda && WORD_FINAL_VOWELS[last.vowel]) last.vowel = WORD_FINAL_VOWELS[last.vowel];
+  return syllables.map(s => s.consonants + s.vowel + s.coda).join('');
+}
+
+const DEVANAGARI_WORD = /[ऀ-ॣॱ-ॿ]+/g;
+
+export function devanagariToRoman(text: string): string {
+  return text
+    .replace(DEVANAGARI_WORD, word => SYMBOLS[word] ?? devanagariWordToRoman(word))
+    .replace(/[०-९]/g, digit => String(DEVANAGARI_DIGITS.indexOf(digit)))
+    .replace(/[।॥]/g, '.');
+}
+
+// --- Roman -> Devanagari ---
+
+// Common Hinglish words and their usual spellings, including the ones
+// devanagariToRoman produces. Words that are also everyday English are in
+// AMBIGUOUS_WORDS instead.
+const ROMAN_WORDS: Record<string, string> = {
+  // Questions
+  kya: 'क्या', kyaa: 'क्या', kaun: 'कौन', kab: 'कब', kahan: 'कहाँ', kaise: 'कैसे',
+  kyun: 'क्यों', kyon: 'क्यों', kyunki: 'क्योंकि',
+  // Pronouns and possessives
+  mai: 'मैं', tum: 'तुम', tu: 'तू', aap: 'आप', hum: 'हम', yeh: 'यह', ye: 'ये', woh: 'वह', wo: 'वो',
+  mera: 'मेरा', meri: 'मेरी', tera: 'तेरा', teri: 'तेरी', tere: 'तेरे', apna: 'अपना', apni: 'अपनी',
+  uska: 'उसका', uski: 'उसकी', sab: 'सब', kuch: 'कुछ', kuchh: 'कुछ',
+  // Verbs
+  hai: 'है', hain: 'हैं', hoon: 'हूँ', hu: 'हूँ', hun: 'हूँ', ho: 'हो', tha: 'था', thi: 'थी',
+  raha: 'रहा', rahi: 'रही', rahe: 'रहे', gaya: 'गया', gayi: 'गई', gaye: 'गए', gae: 'गए', kiya: 'किया', kar: 'कर',
+  karo: 'करो', karna: 'करना', bolo: 'बोलो', suno: 'सुनो', dekho: 'देखो', chalo: 'चलो',
+  samajh: 'समझ', samjha: 'समझा', samajhna: 'समझना',
+  // Particles and connectives
+  nahi: 'नहीं', nahin: 'नहीं', naheen: 'नहीं', haan: 'हाँ', han: 'हाँ', mein: 'में',
+  bhi: 'भी', ji: 'जी', aur: 'और', ko: 'को', ki: 'की', ka: 'का', ke: 'के', se: 'से', par: 'पर',
+  toh: 'तो', lekin: 'लेकिन', magar: 'मगर', agar: 'अगर', phir: 'फिर', abhi: 'अभी', bas: 'बस',
+  aaj: 'आज', kal: 'कल', yahan: 'यहाँ', wahan: 'वहाँ', arre: 'अरे', arey: 'अरे',
+  // Amounts
+  ek: 'एक', bahut: 'बहुत', thoda: 'थोड़ा', thora: 'थोड़ा', zyada: 'ज़्यादा',
+  accha: 'अच्छा', acha: 'अच्छा', achha: 'अच्छा', thik: 'ठीक', theek: 'ठीक',
+  // Nouns
+  bhai: 'भाई', yaar: 'यार', dost: 'दोस्त', ghar: 'घर', dil: 'दिल', pyaar: 'प्यार', ladka: 'लड़का', ladki: 'लड़की', ladke: 'लड़के',
+  zindagi: 'ज़िंदगी', baat: 'बात', paani: 'पानी', khana: 'खाना', chai: 'चाय', kaam: 'काम',
+  paisa: 'पैसा', haal: 'हाल', matlab: 'मतलब', maa: 'माँ', chup: 'चुप', namaste: 'नमस्ते',
+  shukriya: 'शुक्रिया', dhanyavaad: 'धन्यवाद',
+  // Horror
+  bhoot: 'भूत', raat: 'रात', darr: 'डर', dar: 'डर', chudail: 'चुड़ैल', churail: 'चुड़ैल',
+  aatma: 'आत्मा', haveli: 'हवेली', andhera: 'अँधेरा', darwaza: 'दरवाज़ा', kamra: 'कमरा', kamre: 'कमरे',
+  akela: 'अकेला', akele: 'अकेले', akeli: 'अकेली',
+};
+
+// Hinglish words that are also English. Only converted inside a run of
+// Hinglish: "main ghar ja raha hoon", but not "the main road".
+const AMBIGUOUS_WORDS: Record<string, string> = {
+  main: 'मैं', me: 'में', hi: 'ही', do: 'दो', to: 'तो', the: 'थे', mere: 'मेरे', log: 'लोग',
+  teen: 'तीन', beta: 'बेटा', jab: 'जब', sun: 'सुन', bol: 'बोल', din: 'दिन', pal: 'पल',
+};
+
+// Everyday English the letter rules must never touch.
+const ENGLISH_WORDS = new Set(`
+  a an the and or but if so not no yes to of in on at by for from with without about into over
+  under up down out off again then than too very just also only even still yet now here there
+  i me my mine you your yours he him his she her hers it its we us our they them their this that
+  these those who whom whose what which when where why how all any both each few more most other
+  some such own same can will would shall should could may might must do does did done doing
+  be am is are was were been being have has had having get got go goes went gone come came make
+  made take took say said tell told know knew think thought see saw look want need like love
+  feel give gave keep let put seem try call calling called ask work play run sit stand talk
+  listen hear heard joke jokes funny laugh story stories ghost scary night dark house room door
+  window phone friend friends family mother father brother sister man woman boy girl child kids
+  people person life time day today tomorrow yesterday morning evening week year good bad great
+  nice okay ok sorry please thanks thank hello hey bye goodbye well oh wow really right wrong
+  sure maybe never always sometimes something nothing everything someone anyone everyone one
+  two three four five ten hundred first last next new old big small little long short high low
+  home school office road car bus train money food water tea coffee name question answer
+  back away together alone because while until before after during since through around
+  end start stop turn open close help mind heart sound music voice fun happy sad afraid
+`.trim().split(/\s+/));
+
+const ROMAN_CONSONANTS: [string, string][] = [
+  ['chh', 'छ'], ['ksh', 'क्ष'], ['kh', 'ख'], ['gh', 'घ'], ['ch', 'च'], ['jh', 'झ'],
+  ['th', 'थ'], ['dh', 'ध'], ['ph', 'फ'], ['bh', 'भ'], ['sh', 'श'], ['rh', 'ढ़'],
+  ['k', 'क'], ['g', 'ग'], ['c', 'क'], ['j', 'ज'], ['t', 'त'], ['d', 'द'], ['n', 'न'],
+  ['p', 'प'], ['f', 'फ़'], ['b', 'ब'], ['m', 'म'], ['y', 'य'], ['r', 'र'], ['l', 'ल'],
+  ['v', 'व'], ['w', 'व'], ['s', 'स'], ['h', 'ह'], ['z', 'ज़'], ['q', 'क़'], ['x', 'क्स'],
+];
+
+// [roman, independent vowel, matra]; the inherent "a" has no matra.
+const ROMAN_VOWELS: [string, string, string][] = [
+  ['aa', 'आ', 'ा'], ['ai', 'ऐ', 'ै'], ['au', 'औ', 'ौ'], ['ee', 'ई', 'ी'], ['ii', 'ई', 'ी'],
+  ['oo', 'ऊ', 'ू'], ['uu', 'ऊ', 'ू'], ['a', 'अ', ''], ['i', 'इ', 'ि'], ['u', 'उ', 'ु'],
+  ['e', 'ए', 'े'], ['o', 'ओ', 'ो'],
+];
+
+const startsWithConsonant = (text: string) => ROMAN_CONSONANTS.some(([roman]) => text.startsWith(roman));
+
+// Letter by letter, for Hinglish words missing from the lexicon.
+function romanWordToDevanagari(word: string): string {
+  const lower = word.toLowerCase();
+  let out = '';
+  let afterConsonant = false;
+  let i = 0;
+  while (i < lower.length) {
+    const rest = lower.slice(i);
+    const vowel = ROMAN_VOWELS.find(([roman]) => rest.startsWith(roman));
+    if (vowel) {
+      const [roman, independent, matra] = vowel;
+      const atEnd = i + roman.length === lower.length;
+      if (!afterConsonant) {
+        out += independent;
+      } else if (atEnd && roman === 'a') {
+        // Final "a" is long in Hinglish spelling: "kya", "tha", "raha".
+        out += 'ा';
+      } else if (atEnd && roman === 'i') {
+        out += 'ी';
+      } else {
+        out += matra;
+      }
+      afterConsonant = false;
+      i += roman.length;
+      continue;
+    }
+    const consonant = ROMAN_CONSONANTS.find(([roman]) => rest.startsWith(roman));
+    if (!consonant) {
+      out += lower[i];
+      afterConsonant = false;
+      i++;
+      continue;
+    }
+    // A nasal between a vowel and a consonant is written as a dot: "sundar", "zindagi".
+    if ((consonant[0] === 'n' || consonant[0] === 'm') && out && !afterConsonant && startsWithConsonant(rest.slice(1))) {
+      out += 'ं';
+      i++;
+      continue;
+    }
+    if (afterConsonant) out += '्';
+    out += consonant[1];
+    afterConsonant = true;
+    i += consonant[0].length;
+  }
+  return out;
+}
+
+// Own keys only, so words like "constructor" don't find Object.prototype.
+function lookup(table: Record<string, string>, word: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(table, word) ? table[word] : undefined;
+}
+
+// A sentence break between two words ends a run of Hinglish.
+const SENTENCE_BREAK = /[.!?\n]/;
+
+export function romanToDevanagari(text: string): string {
+  const words = Array.from(text.matchAll(/[A-Za-z]+/g), match => ({
+    word: match[0],
+    lower: match[0].toLowerCase(),
+    start: match.index ?? 0,
+  }));
+  const sameSentence = (a: number, b: number) =>
+    !SENTENCE_BREAK.test(text.slice(words[a].start + words[a].word.length, words[b].start));
+
+  // Lexicon words start runs of Hinglish, which spread to neighbouring words
+  // that are ambiguous or not common English.
+  const hinglish = words.map(({ lower }) => lookup(ROMAN_WORDS, lower) !== undefined);
+  for (let changed = true; changed;) {
+    changed = false;
+    words.forEach(({ lower }, i) => {
+      if (hinglish[i] || (ENGLISH_WORDS.has(lower) && lookup(AMBIGUOUS_WORDS, lower) === undefined)) return;
+      const nextToRun = (i > 0 && hinglish[i - 1] && sameSentence(i - 1, i))
+        || (i + 1 < words.length && hinglish[i + 1] && sameSentence(i, i + 1));
+      if (nextToRun) {
+        hinglish[i] = true;
+        changed = true;
+      }
+    });
+  }
+
+  let out = '';
+  let last = 0;
+  words.forEach(({ word, lower, start }, i) => {
+    out += text.slice(last, start);
+    out += hinglish[i] ? lookup(ROMAN_WORDS, lower) ?? lookup(AMBIGUOUS_WORDS, lower) ?? romanWordToDevanagari(word) : word;
+    last = start + word.length;
+  });
+  return out + text.slice(last);
+}
+
+// --- Display ---
+
+// The text in the requested script. 'both' stacks the Devanagari and Roman
+// renderings on two lines, or gives one line when they come out the same.
+export function transliterate(text: string, script: TranscriptScript): string {
+  switch (script) {
+    case 'devanagari':
+      return romanToDevanagari(text);
+    case 'roman':
+      return devanagariToRoman(text);
+    case 'both': {
+      const devanagari = romanToDevanagari(text);
+      const roman = devanagariToRoman(text);
+      return devanagari === roman ? roman : `${devanagari}\n${roman}`;
+    }
+    default:
+      return text;
+  }
+}
@@ -1,5 +0,0 @@
-
-export interface TranscriptionEntry {
-  speaker: 'You' | 'AI';
-  text: string;
-}
@@ -8,9 +8,20 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
   return {
     plugins: [react()],
+    server: {
+      proxy: {
+        // Forward token requests to the local token proxy in dev
+        '/api': `http://localhost:${env.TOKEN_PROXY_PORT || 8787}`
+      }
+    },
     define: {
-      // Expose the API_KEY to the app code
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      // The API key stays in the token proxy (npm run proxy); the app only knows where that is
+      'process.env.TOKEN_PROXY_URL': JSON.stringify(env.TOKEN_PROXY_URL || '/api'),
+      // Optional JSON file with extra personas, loaded at startup
+      'process.env.PERSONAS_URL': JSON.stringify(env.PERSONAS_URL || '/personas.json'),
+      // LIVE_TRANSPORT=fake replays the scripts in public/scripts instead of calling the API
+      'process.env.LIVE_TRANSPORT': JSON.stringify(env.LIVE_TRANSPORT || 'gemini'),
+      'process.env.FAKE_LIVE_SCRIPT': JSON.stringify(env.FAKE_LIVE_SCRIPT || '')
     }
   };
 });